@@ -0,0 +1,75 @@
+/* eslint-disable no-console */
+/**
+ * Refresh the bundled IANA RDAP bootstrap snapshot in src/data/bootstrap.
+ *
+ * The source can be an http(s) base URL or a local mirror directory:
+ *   node scripts/refresh-bootstrap-snapshot.js
+ *   node scripts/refresh-bootstrap-snapshot.js /srv/mirror/rdap
+ *   RDAP_BOOTSTRAP_SOURCE=https://mirror.example/rdap/ npm run bootstrap:refresh
+ */
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULT_SOURCE = 'https://data.iana.org/rdap/';
+const SNAPSHOT_DIR = path.join(__dirname, '..', 'src', 'data', 'bootstrap');
+const MANIFEST_PATH = path.join(SNAPSHOT_DIR, 'manifest.json');
+
+const source =
+  process.argv[2] || process.env.RDAP_BOOTSTRAP_SOURCE || DEFAULT_SOURCE;
+const isRemote = /^https?:\/\//i.test(source);
+
+async function readBootstrapFile(fileName) {
+  if (isRemote) {
+    const baseUrl = source.endsWith('/') ? source : `${source}/`;
+    const response = await fetch(`${baseUrl}${fileName}`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} for ${baseUrl}${fileName}`);
+    }
+    return response.text();
+  }
+
+  return fs.promises.readFile(path.resolve(source, fileName), 'utf8');
+}
+
+async function main() {
+  const manifest = JSON.parse(fs.readFileSync(MANIFEST_PATH, 'utf8'));
+  const snapshots = {};
+
+  // Read and validate every file before writing anything
+  for (const [type, fileName] of Object.entries(manifest.files)) {
+    const data = JSON.parse(await readBootstrapFile(fileName));
+    if (!Array.isArray(data.services) || !data.publication) {
+      throw new Error(`${fileName} is not an RDAP bootstrap file`);
+    }
+    snapshots[fileName] = data;
+    console.log(
+      `${type}: ${data.services.length} services, published ${data.publication}`,
+    );
+  }
+
+  for (const [fileName, data] of Object.entries(snapshots)) {
+    fs.writeFileSync(
+      path.join(SNAPSHOT_DIR, fileName),
+      `${JSON.stringify(data, null, 2)}\n`,
+    );
+  }
+
+  const refreshedAt = new Date().toISOString();
+  const updatedManifest = {
+    ...manifest,
+    version: refreshedAt.slice(0, 10),
+    refreshedAt,
+    source,
+  };
+  fs.writeFileSync(
+    MANIFEST_PATH,
+    `${JSON.stringify(updatedManifest, null, 2)}\n`,
+  );
+
+  console.log(`Bootstrap snapshot ${updatedManifest.version} written.`);
+}
+
+main().catch((error) => {
+  console.error('Failed to refresh bootstrap snapshot:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+// Stand-in for next/server in route tests: jsdom has no fetch Request or
+// Response, which the real NextResponse extends
+class MockHeaders {
+  private values = new Map<string, string>();
+
+  constructor(init: Record<string, string> = {}) {
+    for (const [name, value] of Object.entries(init)) {
+      this.values.set(name.toLowerCase(), value);
+    }
+  }
+
+  get(name: string): string | null {
+    return this.values.get(name.toLowerCase()) ?? null;
+  }
+
+  set(name: string, value: string): void {
+    this.values.set(name.toLowerCase(), value);
+  }
+}
+
+export class NextResponse {
+  status: number;
+  headers: MockHeaders;
+  private body: unknown;
+
+  constructor(
+    body: unknown,
+    init: { status?: number; headers?: Record<string, string> } = {},
+  ) {
+    this.body = body;
+    this.status = init.status ?? 200;
+    this.headers = new MockHeaders(init.headers);
+  }
+
+  static json(
+    body: unknown,
+    init?: { status?: number; headers?: Record<string, string> },
+  ): NextResponse {
+    return new NextResponse(body, init);
+  }
+
+  async json(): Promise<unknown> {
+    return typeof this.body === 'string' ? JSON.parse(this.body) : this.body;
+  }
+}
+
+/**
+ * A request with just the members the route handlers read
+ */
+export function createRequest(
+  url: string,
+  headers: Record<string, string> = {},
+): Request {
+  return { url, headers: new MockHeaders(headers) } as unknown as Request;
+}
@@ -0,0 +1,47 @@
+import { createRequest } from '@/__mocks__/next-server';
+import { GET, POST } from '@/app/api/admin/bootstrap/route';
+
+jest.mock('next/server', () => jest.requireActual('@/__mocks__/next-server'));
+
+const TOKEN = 'a-sufficiently-long-token';
+const ADMIN_URL = 'http://localhost/api/admin/bootstrap';
+
+describe('Admin bootstrap route', () => {
+  afterEach(() => {
+    delete process.env.RDAP_ADMIN_TOKEN;
+  });
+
+  it('should answer with the error envelope when disabled', async () => {
+    const response = await GET(createRequest(ADMIN_URL));
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({
+      code: 'ADMIN_DISABLED',
+      status: 404,
+    });
+  });
+
+  it('should reject a wrong bearer token', async () => {
+    process.env.RDAP_ADMIN_TOKEN = TOKEN;
+
+    const response = await GET(
+      createRequest(ADMIN_URL, { authorization: 'Bearer not-the-right-token' }),
+    );
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('should reject an unknown bootstrap type', async () => {
+    process.env.RDAP_ADMIN_TOKEN = TOKEN;
+
+    const response = await POST(
+      createRequest(`${ADMIN_URL}?type=tlds`, {
+        authorization: `Bearer ${TOKEN}`,
+      }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+});
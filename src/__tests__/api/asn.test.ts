@@ -0,0 +1,47 @@
+import { clearBootstrapCache } from '@/lib/rdap-bootstrap';
+import { createStubRdapServer } from '@/lib/rdap-stub';
+
+import { createRequest } from '@/__mocks__/next-server';
+import { GET } from '@/app/api/asn/[number]/route';
+
+jest.mock('next/server', () => jest.requireActual('@/__mocks__/next-server'));
+
+const getAsn = (asn: string) =>
+  GET(createRequest(`http://localhost/api/asn/${asn}`), {
+    params: { number: asn },
+  });
+
+describe('ASN lookup route', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    clearBootstrapCache();
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should report the delegation when the RDAP server has no answer', async () => {
+    fetchMock.mockImplementation(createStubRdapServer().transport);
+
+    const response = await getAsn('15170');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({
+      code: 'UPSTREAM_NOT_FOUND',
+      delegation: { range: '13312-15359', registry: 'ARIN' },
+    });
+  });
+
+  it('should not fetch the bootstrap again after it failed', async () => {
+    fetchMock.mockRejectedValue(new Error('network down'));
+
+    const response = await getAsn('15169');
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).not.toHaveProperty('delegation');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,114 @@
+import type { NextResponse } from 'next/server';
+
+import { clearBootstrapCache } from '@/lib/rdap-bootstrap';
+import { createStubRdapServer } from '@/lib/rdap-stub';
+
+import { createRequest } from '@/__mocks__/next-server';
+import { GET as getEntity } from '@/app/api/entity/[handle]/route';
+import { GET as getIP } from '@/app/api/ip/[address]/route';
+import { GET as getDomain } from '@/app/api/lookup/[domain]/route';
+import { GET as getNameserver } from '@/app/api/nameserver/[host]/route';
+
+jest.mock('next/server', () => jest.requireActual('@/__mocks__/next-server'));
+
+/**
+ * Call a lookup route the way Next does: with the request for the encoded
+ * path and the param already decoded
+ */
+const callRoute = <Params>(
+  handler: (
+    request: Request,
+    context: { params: Params },
+  ) => Promise<NextResponse>,
+  path: string,
+  params: Params,
+) => handler(createRequest(`http://localhost${path}`), { params });
+
+// Next decodes route params before the handlers see them, so the handlers
+// must not decode them again
+describe('Lookup routes should take their params as Next decodes them', () => {
+  const { transport, requests } = createStubRdapServer();
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    clearBootstrapCache();
+    requests.length = 0;
+    fetchMock.mockImplementation(transport);
+    global.fetch = fetchMock;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it.each([
+    [
+      'domain',
+      () => callRoute(getDomain, '/api/lookup/a%25.com', { domain: 'a%.com' }),
+    ],
+    [
+      'IP',
+      () => callRoute(getIP, '/api/ip/192.0.2.0%25', { address: '192.0.2.0%' }),
+    ],
+    [
+      'entity',
+      () =>
+        callRoute(getEntity, '/api/entity/GOGL%25-ARIN', {
+          handle: 'GOGL%-ARIN',
+        }),
+    ],
+    [
+      'nameserver',
+      () =>
+        callRoute(getNameserver, '/api/nameserver/ns1%25.example.com', {
+          host: 'ns1%.example.com',
+        }),
+    ],
+  ])(
+    'should answer a literal %% in the %s route with a validation error',
+    async (_, call) => {
+      const response = await call();
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({
+        code: 'VALIDATION_ERROR',
+      });
+      expect(requests).toEqual([]);
+    },
+  );
+
+  it('should look up a decoded Unicode domain by its A-labels', async () => {
+    await callRoute(getDomain, '/api/lookup/m%C3%BCnchen.de', {
+      domain: 'münchen.de',
+    });
+
+    expect(requests).toContain(
+      'https://rdap.denic.de/domain/xn--mnchen-3ya.de',
+    );
+  });
+
+  it('should look up a decoded prefix as a prefix', async () => {
+    await callRoute(getIP, '/api/ip/192.0.2.0%2F24', {
+      address: '192.0.2.0/24',
+    });
+
+    expect(requests).toContain(
+      'https://rdap.arin.net/registry/ip/192.0.2.0/24',
+    );
+  });
+
+  it('should cache every spelling of an IPv6 address under one key', async () => {
+    for (const address of [
+      '2001:4860:4860::8888',
+      '2001:4860:4860:0:0:0:0:8888',
+    ]) {
+      const response = await callRoute(getIP, `/api/ip/${address}`, {
+        address,
+      });
+      expect(response.status).toBe(200);
+    }
+
+    expect(
+      requests.filter((url) => url.includes('/ip/2001:4860:4860')),
+    ).toEqual(['https://rdap.arin.net/registry/ip/2001:4860:4860::8888']);
+  });
+});
@@ -0,0 +1,20 @@
+import { createRequest } from '@/__mocks__/next-server';
+import { GET } from '@/app/api/search/route';
+
+jest.mock('next/server', () => jest.requireActual('@/__mocks__/next-server'));
+
+describe('Search route', () => {
+  it.each(['unknown', 'toString', 'constructor', '__proto__'])(
+    'should reject the search type %s',
+    async (type) => {
+      const response = await GET(
+        createRequest(`http://localhost/api/search?type=${type}&name=x.com`),
+      );
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({
+        code: 'VALIDATION_ERROR',
+      });
+    },
+  );
+});
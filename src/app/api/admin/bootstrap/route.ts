@@ -0,0 +1,104 @@
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+
+import { rdapErrorResponse } from '@/lib/api-response';
+import { getHostLimiterStats } from '@/lib/host-limiter';
+import { getInFlightCount } from '@/lib/inflight';
+import { getLookupCacheStats } from '@/lib/lookup-cache';
+import {
+  BootstrapType,
+  getCacheStats,
+  IANA_BOOTSTRAP_URLS,
+  refreshBootstrapData,
+} from '@/lib/rdap-bootstrap';
+import {
+  RdapAdminDisabledError,
+  RdapError,
+  RdapUnauthorizedError,
+  RdapValidationError,
+} from '@/lib/rdap-errors';
+
+/**
+ * Check the bearer token against RDAP_ADMIN_TOKEN; the API is disabled when
+ * no token is configured
+ */
+function authorize(request: Request): NextResponse | null {
+  const adminToken = process.env.RDAP_ADMIN_TOKEN;
+  if (!adminToken) {
+    return rdapErrorResponse(
+      new RdapAdminDisabledError('Admin API is disabled.'),
+    );
+  }
+
+  const header = request.headers.get('authorization') ?? '';
+  const token = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(adminToken);
+
+  if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+    return rdapErrorResponse(new RdapUnauthorizedError('Unauthorized.'));
+  }
+
+  return null;
+}
+
+export async function GET(request: Request) {
+  const unauthorized = authorize(request);
+  if (unauthorized) return unauthorized;
+
+  return NextResponse.json({
+    ...getCacheStats(),
+    lookupCache: getLookupCacheStats(),
+    inFlight: getInFlightCount(),
+    outbound: getHostLimiterStats(),
+  });
+}
+
+/**
+ * Force a refresh of one bootstrap registry (?type=dns) or all of them
+ */
+export async function POST(request: Request) {
+  const unauthorized = authorize(request);
+  if (unauthorized) return unauthorized;
+
+  const { searchParams } = new URL(request.url);
+  const type = searchParams.get('type');
+  const allTypes = Object.keys(IANA_BOOTSTRAP_URLS) as BootstrapType[];
+
+  if (type && !allTypes.includes(type as BootstrapType)) {
+    return rdapErrorResponse(
+      new RdapValidationError(`Unknown bootstrap type '${type}'.`),
+    );
+  }
+
+  const types = type ? [type as BootstrapType] : allTypes;
+  const results = await Promise.allSettled(
+    types.map((bootstrapType) => refreshBootstrapData(bootstrapType)),
+  );
+
+  const refreshed = results.map((result, i) =>
+    result.status === 'fulfilled'
+      ? result.value
+      : {
+          type: types[i],
+          error:
+            result.reason instanceof Error
+              ? result.reason.message
+              : 'Refresh failed',
+        },
+  );
+  const failed = types.filter((_, i) => results[i].status === 'rejected');
+
+  if (failed.length > 0) {
+    // The envelope carries the per-type results, including any that succeeded
+    return rdapErrorResponse(
+      new RdapError(
+        `Failed to refresh ${failed.join(', ')} bootstrap data.`,
+        'UPSTREAM_ERROR',
+        502,
+      ),
+      { refreshed, stats: getCacheStats() },
+    );
+  }
+
+  return NextResponse.json({ refreshed, stats: getCacheStats() });
+}
@@ -1,26 +1,43 @@
-import { NextResponse } from 'next/server';
-
-import { lookupASN } from '@/lib/asn-rdap';
+import { lookupResponse, rdapErrorResponse } from '@/lib/api-response';
+import {
+  AsnDelegation,
+  findAsnDelegation,
+  lookupASN,
+  validateASN,
+} from '@/lib/asn-rdap';
+import { cachedLookup } from '@/lib/lookup-cache';
+import { RdapValidationError } from '@/lib/rdap-errors';
 
 export async function GET(
   request: Request,
   { params }: { params: { number: string } },
 ) {
-  try {
-    const asnNumber = params.number;
+  const asnNumber = params.number;
+  const { searchParams } = new URL(request.url);
+  const conformance = searchParams.get('conformance') === '1';
+  // The bootstrap still tells us who the block is delegated to when the
+  // RDAP server fails; left unset when the bootstrap itself failed
+  let delegation: AsnDelegation | null = null;
 
+  try {
     if (!asnNumber) {
-      return NextResponse.json(
-        { error: 'ASN number required' },
-        { status: 400 },
-      );
+      throw new RdapValidationError('ASN number required');
     }
 
-    const data = await lookupASN(asnNumber);
+    const result = await cachedLookup(
+      'asn',
+      `${validateASN(asnNumber).normalized ?? asnNumber}${
+        conformance ? '?conformance' : ''
+      }`,
+      async () => {
+        delegation = await findAsnDelegation(asnNumber);
+        return lookupASN(asnNumber, { conformance });
+      },
+      { fresh: searchParams.get('fresh') === '1' },
+    );
 
-    return NextResponse.json(data);
+    return lookupResponse(request, result);
   } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return NextResponse.json({ error: message }, { status: 500 });
+    return rdapErrorResponse(error, delegation ? { delegation } : {});
   }
 }
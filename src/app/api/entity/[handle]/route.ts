@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+
+import { rdapErrorResponse } from '@/lib/api-response';
+import { lookupEntity } from '@/lib/entity-rdap';
+import { RdapValidationError } from '@/lib/rdap-errors';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { handle: string } },
+) {
+  // Next has already decoded the param
+  const handle = params.handle;
+
+  if (!handle) {
+    return rdapErrorResponse(
+      new RdapValidationError('Entity handle is required.'),
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const conformance = searchParams.get('conformance') === '1';
+
+  try {
+    const result = await lookupEntity(handle, { conformance });
+    return NextResponse.json(result);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`Entity lookup error for ${handle}:`, error);
+    return rdapErrorResponse(error);
+  }
+}
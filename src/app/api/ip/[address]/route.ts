@@ -1,41 +1,45 @@
-import { NextResponse } from 'next/server';
-
+import { lookupResponse, rdapErrorResponse } from '@/lib/api-response';
 import { lookupIP } from '@/lib/ip-rdap';
+import { validateIP, validateIPPrefix } from '@/lib/ip-utils';
+import { cachedLookup } from '@/lib/lookup-cache';
+import { RdapValidationError } from '@/lib/rdap-errors';
 
 export async function GET(
   request: Request,
   { params }: { params: { address: string } },
 ) {
+  // Next has already decoded the param, so 192.0.2.0%2F24 arrives as a
+  // prefix
   const ipAddress = params.address;
 
   if (!ipAddress) {
-    return NextResponse.json(
-      { error: 'IP address is required.' },
-      { status: 400 },
+    return rdapErrorResponse(
+      new RdapValidationError('IP address is required.'),
     );
   }
 
+  const { searchParams } = new URL(request.url);
+  const hierarchy = searchParams.get('hierarchy') === '1';
+  const conformance = searchParams.get('conformance') === '1';
+  const reverse = searchParams.get('reverse') === '1';
+  const validation = ipAddress.includes('/')
+    ? validateIPPrefix(ipAddress)
+    : validateIP(ipAddress);
+  const cacheKey = `${validation.normalized ?? ipAddress}${
+    hierarchy ? '?hierarchy' : ''
+  }${conformance ? '?conformance' : ''}${reverse ? '?reverse' : ''}`;
+
   try {
-    const result = await lookupIP(ipAddress);
-    return NextResponse.json(result);
+    const result = await cachedLookup(
+      'ip',
+      cacheKey,
+      () => lookupIP(ipAddress, { hierarchy, conformance, reverse }),
+      { fresh: searchParams.get('fresh') === '1' },
+    );
+    return lookupResponse(request, result);
   } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : 'An unknown error occurred';
     // eslint-disable-next-line no-console
     console.error(`IP lookup error for ${ipAddress}:`, error);
-
-    // Determine appropriate status code
-    let statusCode = 500;
-    if (
-      errorMessage.includes('Invalid IP') ||
-      errorMessage.includes('Private IP') ||
-      errorMessage.includes('Reserved IP')
-    ) {
-      statusCode = 400;
-    } else if (errorMessage.includes('No RDAP server found')) {
-      statusCode = 404;
-    }
-
-    return NextResponse.json({ error: errorMessage }, { status: statusCode });
+    return rdapErrorResponse(error);
   }
 }
@@ -1,86 +1,40 @@
 // src/app/api/lookup/[domain]/route.ts
-import { NextResponse } from 'next/server';
-
-import {
-  fetchAndCacheServers,
-  findRdapServerUrl,
-  normalizeRdapResponse,
-  RdapResponse,
-} from '@/lib/rdap';
+import { lookupResponse, rdapErrorResponse } from '@/lib/api-response';
+import { parseDomainInput } from '@/lib/domain-input';
+import { cachedLookup } from '@/lib/lookup-cache';
+import { lookupDomain } from '@/lib/rdap';
+import { RdapValidationError } from '@/lib/rdap-errors';
 
 export async function GET(
   request: Request,
   { params }: { params: { domain: string } },
 ) {
+  // Next has already decoded the param; decoding again would turn a literal
+  // % into a URIError
   const domainName = params.domain;
+  const { searchParams } = new URL(request.url);
+  const followReferral = searchParams.get('follow') === '1';
+  const conformance = searchParams.get('conformance') === '1';
 
   if (!domainName) {
-    return NextResponse.json(
-      { error: 'Domain name is required.' },
-      { status: 400 },
-    );
-  }
-
-  // Basic validation for domain format
-  const tldMatch = domainName.match(/\.([^.]+)$/);
-  if (!tldMatch) {
-    return NextResponse.json(
-      { error: `'${domainName}' is not a valid domain format.` },
-      { status: 400 },
+    return rdapErrorResponse(
+      new RdapValidationError('Domain name is required.'),
     );
   }
-  const tld = tldMatch[1];
 
   try {
-    // This function will fetch from IANA only if the server-side cache is empty.
-    await fetchAndCacheServers();
-
-    // Find the correct RDAP server for the TLD
-    const rdapServerUrl = findRdapServerUrl(tld);
-    if (!rdapServerUrl) {
-      return NextResponse.json(
-        { error: `No RDAP server found for the '.${tld}' TLD.` },
-        { status: 404 },
-      );
-    }
-
-    // Construct the full query URL and fetch data from the authoritative RDAP server
-    const baseUrl = rdapServerUrl.endsWith('/')
-      ? rdapServerUrl
-      : `${rdapServerUrl}/`;
-    const fullQueryUrl = `${baseUrl}domain/${domainName}`;
-
-    const response = await fetch(fullQueryUrl);
-
-    if (!response.ok) {
-      let errorBody = 'The RDAP server returned an error.';
-      try {
-        // Try to parse the error response from the RDAP server
-        const errorJson = await response.json();
-        errorBody =
-          errorJson.description || errorJson.title || JSON.stringify(errorJson);
-      } catch (e) {
-        // Fallback if the error response is not JSON
-        errorBody = `HTTP Error ${response.status}: ${response.statusText}`;
-      }
-      return NextResponse.json(
-        { error: errorBody },
-        { status: response.status },
-      );
-    }
-
-    const rawData: RdapResponse = await response.json();
-
-    // Process the raw data into a clean, normalized format
-    const normalizedData = normalizeRdapResponse(rawData, baseUrl);
-
-    return NextResponse.json(normalizedData);
+    // Every spelling of a domain (URL, subdomain, Unicode) shares one entry
+    const cacheKey = parseDomainInput(domainName).domain;
+    const result = await cachedLookup(
+      'domain',
+      `${cacheKey}${followReferral ? '?follow' : ''}${
+        conformance ? '?conformance' : ''
+      }`,
+      () => lookupDomain(domainName, { followReferral, conformance }),
+      { fresh: searchParams.get('fresh') === '1' },
+    );
+    return lookupResponse(request, result);
   } catch (error) {
-    const errorMessage =
-      error instanceof Error
-        ? error.message
-        : 'An unknown internal error occurred';
-    // Optionally log the error using a logging service here
-    return NextResponse.json({ error: errorMessage }, { status: 500 });
+    return rdapErrorResponse(error);
   }
 }
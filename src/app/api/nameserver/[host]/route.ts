@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+
+import { rdapErrorResponse } from '@/lib/api-response';
+import { lookupNameserver } from '@/lib/rdap';
+import { RdapValidationError } from '@/lib/rdap-errors';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { host: string } },
+) {
+  // Next has already decoded the param
+  const host = params.host;
+
+  if (!host) {
+    return rdapErrorResponse(
+      new RdapValidationError('Nameserver host name is required.'),
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const conformance = searchParams.get('conformance') === '1';
+
+  try {
+    const result = await lookupNameserver(host, { conformance });
+    return NextResponse.json(result);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`Nameserver lookup error for ${host}:`, error);
+    return rdapErrorResponse(error);
+  }
+}
@@ -1,34 +1,28 @@
 // src/app/api/rdap/route.ts
 import { NextResponse } from 'next/server';
 
+import { rdapErrorResponse } from '@/lib/api-response';
+import { RdapValidationError } from '@/lib/rdap-errors';
+import { fetchRdapProxy } from '@/lib/rdap-proxy';
+
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const rdapUrl = searchParams.get('url');
 
   if (!rdapUrl) {
-    return NextResponse.json(
-      { error: 'Missing RDAP URL parameter' },
-      { status: 400 },
+    return rdapErrorResponse(
+      new RdapValidationError('Missing RDAP URL parameter'),
     );
   }
 
   try {
-    const response = await fetch(rdapUrl);
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      return NextResponse.json(errorData, {
-        status: response.status,
-        statusText: response.statusText,
-      });
-    }
+    const { body, contentType } = await fetchRdapProxy(rdapUrl);
 
-    const data = await response.json();
-    return NextResponse.json(data);
+    // Pass the body through untouched, keeping application/rdap+json
+    return new NextResponse(body, {
+      headers: { 'Content-Type': contentType },
+    });
   } catch (error) {
-    return NextResponse.json(
-      { error: 'Failed to fetch from RDAP server' },
-      { status: 500 },
-    );
+    return rdapErrorResponse(error);
   }
 }
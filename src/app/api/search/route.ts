@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+
+import { rdapErrorResponse } from '@/lib/api-response';
+import { RdapValidationError } from '@/lib/rdap-errors';
+import {
+  RdapSearchParameter,
+  RdapSearchType,
+  SEARCH_PARAMETERS,
+  searchRdap,
+} from '@/lib/rdap-search';
+
+const MAX_LIMIT = 500;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const type = searchParams.get('type') ?? '';
+
+  // Own keys only: `in` would also accept toString, constructor and so on
+  if (!Object.keys(SEARCH_PARAMETERS).includes(type)) {
+    return rdapErrorResponse(
+      new RdapValidationError(
+        `Search type must be one of ${Object.keys(SEARCH_PARAMETERS).join(
+          ', ',
+        )}.`,
+      ),
+    );
+  }
+
+  const searchType = type as RdapSearchType;
+  const allowed: readonly RdapSearchParameter[] = SEARCH_PARAMETERS[searchType];
+  const given = allowed.filter((parameter) => searchParams.has(parameter));
+  if (given.length !== 1) {
+    return rdapErrorResponse(
+      new RdapValidationError(
+        `Pass exactly one of ${allowed.join(', ')} to search ${searchType}.`,
+      ),
+    );
+  }
+
+  const limit = searchParams.get('limit');
+  const maxResults = limit === null ? undefined : Number(limit);
+  if (
+    maxResults !== undefined &&
+    (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > MAX_LIMIT)
+  ) {
+    return rdapErrorResponse(
+      new RdapValidationError(`limit must be between 1 and ${MAX_LIMIT}.`),
+    );
+  }
+
+  const [parameter] = given;
+  const pattern = searchParams.get(parameter) ?? '';
+
+  try {
+    const result = await searchRdap(searchType, parameter, pattern, {
+      tld: searchParams.get('tld') ?? undefined,
+      tag: searchParams.get('tag') ?? undefined,
+      maxResults,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`RDAP search error for ${type}?${parameter}:`, error);
+    return rdapErrorResponse(error);
+  }
+}
@@ -16,14 +16,24 @@ import {
   Zap,
 } from 'lucide-react';
 import { useEffect, useState } from 'react';
-import { parse } from 'tldts';
 
 import { NormalizedRdapData } from '@/lib/rdap';
 
+interface IPNetworkSummary {
+  handle?: string;
+  name?: string;
+  cidr?: string;
+  startAddress?: string;
+  endAddress?: string;
+  type?: string;
+}
+
 interface IPData {
   ip: string;
   type: string;
+  prefixMatch?: 'exact' | 'contains' | 'overlaps';
   network: {
+    handle?: string;
     cidr?: string;
     name?: string;
     country?: string;
@@ -45,9 +55,21 @@ interface IPData {
     title?: string;
     description?: string[];
   }>;
+  hierarchy?: {
+    parents: IPNetworkSummary[];
+    children: IPNetworkSummary[];
+  };
+  reverseDns?: {
+    zone: string;
+    nameservers: string[];
+    dnssec: string;
+  };
+  reverseDnsError?: string;
   rdapServer: string;
 }
 
+type IPDetail = 'hierarchy' | 'reverse';
+
 interface AsnData {
   asn: number;
   range: {
@@ -66,6 +88,10 @@ interface AsnData {
     title?: string;
     description?: string[];
   }>;
+  delegation?: {
+    range: string;
+    registry?: string;
+  };
   rdapServer: string;
 }
 
@@ -80,6 +106,7 @@ export default function Home() {
     null,
   );
   const [ipResults, setIpResults] = useState<IPData | null>(null);
+  const [ipDetailLoading, setIpDetailLoading] = useState<IPDetail | null>(null);
   const [asnResults, setAsnResults] = useState<AsnData | null>(null);
   const [mode, setMode] = useState<'dark' | 'light'>('light');
 
@@ -141,19 +168,19 @@ export default function Home() {
     const rawInput = input.trim().toLowerCase();
 
     if (lookupType === 'domain') {
-      const parsed = parse(rawInput);
-      if (!parsed.domain) {
+      if (!rawInput) {
         setStatus({
           message: 'Please enter a valid domain name.',
           type: 'warn',
         });
         return;
       }
-      await lookupDomain(parsed.domain);
+      // The API reduces URLs, emails and subdomains to the registrable domain
+      await lookupDomain(rawInput);
     } else if (lookupType === 'ip') {
       if (!isValidIP(rawInput)) {
         setStatus({
-          message: 'Please enter a valid IP address.',
+          message: 'Please enter a valid IP address or CIDR prefix.',
           type: 'warn',
         });
         return;
@@ -173,13 +200,18 @@ export default function Home() {
   };
   const isValidIP = (ip: string): boolean => {
     try {
-      const cleanIP = ip.trim();
+      // An optional prefix length, as in 192.0.2.0/24
+      const [cleanIP, prefixLength, ...rest] = ip.trim().split('/');
+      if (rest.length > 0) return false;
+      if (prefixLength !== undefined && !/^\d{1,3}$/.test(prefixLength)) {
+        return false;
+      }
 
       // Check IPv4 - basic but comprehensive regex
       const ipv4Regex =
         /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/;
       if (ipv4Regex.test(cleanIP)) {
-        return true;
+        return prefixLength === undefined || Number(prefixLength) <= 32;
       }
 
       // Check IPv6 - comprehensive regex that handles :: notation
@@ -187,7 +219,10 @@ export default function Home() {
       const ipv6Regex =
         /^(([0-9a-fA-F]{1,4}:){7,7}[0-9a-fA-F]{1,4}|([0-9a-fA-F]{1,4}:){1,7}:|([0-9a-fA-F]{1,4}:){1,6}:[0-9a-fA-F]{1,4}|([0-9a-fA-F]{1,4}:){1,5}(:[0-9a-fA-F]{1,4}){1,2}|([0-9a-fA-F]{1,4}:){1,4}(:[0-9a-fA-F]{1,4}){1,3}|([0-9a-fA-F]{1,4}:){1,3}(:[0-9a-fA-F]{1,4}){1,4}|([0-9a-fA-F]{1,4}:){1,2}(:[0-9a-fA-F]{1,4}){1,5}|[0-9a-fA-F]{1,4}:((:[0-9a-fA-F]{1,4}){1,6})|:((:[0-9a-fA-F]{1,4}){1,7}|:)|fe80:(:[0-9a-fA-F]{0,4}){0,4}%[0-9a-zA-Z]{1,}|::(ffff(:0{1,4}){0,1}:){0,1}((25[0-5]|(2[0-4]|1{0,1}[0-9]){0,1}[0-9])\.){3,3}(25[0-5]|(2[0-4]|1{0,1}[0-9]){0,1}[0-9])|([0-9a-fA-F]{1,4}:){1,4}:((25[0-5]|(2[0-4]|1{0,1}[0-9]){0,1}[0-9])\.){3,3}(25[0-5]|(2[0-4]|1{0,1}[0-9]){0,1}[0-9]))$/;
 
-      return ipv6Regex.test(cleanIP);
+      return (
+        ipv6Regex.test(cleanIP) &&
+        (prefixLength === undefined || Number(prefixLength) <= 128)
+      );
     } catch (error) {
       return false;
     }
@@ -199,10 +234,19 @@ export default function Home() {
     setStatus({ message: `Looking up ${domain}...`, type: 'info' });
 
     try {
-      const response = await fetch(`/api/lookup/${domain}`);
+      const response = await fetch(`/api/lookup/${encodeURIComponent(domain)}`);
       const data = await response.json();
       if (!response.ok) throw new Error(data.error || 'API error.');
       setDomainResults(data);
+
+      // Say so when a URL or subdomain was reduced to its registered domain
+      const query: NormalizedRdapData['query'] = data.query;
+      if (query && ![query.domain, query.unicodeName].includes(domain)) {
+        setStatus({
+          message: `Showing results for ${query.unicodeName}.`,
+          type: 'info',
+        });
+      }
     } catch (error: unknown) {
       // eslint-disable-next-line no-console
       console.error('Domain lookup failed:', error);
@@ -221,7 +265,7 @@ export default function Home() {
     setStatus({ message: `Looking up ${ip}...`, type: 'info' });
 
     try {
-      const response = await fetch(`/api/ip/${ip}`);
+      const response = await fetch(`/api/ip/${encodeURIComponent(ip)}`);
       const data = await response.json();
       if (!response.ok) throw new Error(data.error || 'API error.');
       setIpResults(data);
@@ -237,6 +281,43 @@ export default function Home() {
     }
   };
 
+  // The allocation chain and reverse delegation take several more upstream
+  // queries each, so they are only fetched when asked for
+  const loadIPDetail = async (detail: IPDetail) => {
+    if (!ipResults) return;
+    setIpDetailLoading(detail);
+
+    try {
+      const response = await fetch(
+        `/api/ip/${encodeURIComponent(ipResults.ip)}?${detail}=1`,
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'API error.');
+      setIpResults((current) =>
+        current && current.ip === data.ip
+          ? {
+              ...current,
+              ...(detail === 'hierarchy'
+                ? { hierarchy: data.hierarchy }
+                : {
+                    reverseDns: data.reverseDns,
+                    reverseDnsError: data.reverseDnsError,
+                  }),
+            }
+          : current,
+      );
+    } catch (error: unknown) {
+      // eslint-disable-next-line no-console
+      console.error(`IP ${detail} lookup failed:`, error);
+      setStatus({
+        message: (error as Error).message || 'Unknown error.',
+        type: 'error',
+      });
+    } finally {
+      setIpDetailLoading(null);
+    }
+  };
+
   const lookupASN = async (asn: string) => {
     setIsLoading(true);
     clearResults();
@@ -245,7 +326,14 @@ export default function Home() {
     try {
       const response = await fetch(`/api/asn/${asn}`);
       const data = await response.json();
-      if (!response.ok) throw new Error(data.error || 'API error.');
+      if (!response.ok) {
+        const registry = data.delegation?.registry;
+        throw new Error(
+          registry
+            ? `${data.error || 'API error.'} (AS${asn} is delegated to ${registry})`
+            : data.error || 'API error.',
+        );
+      }
       setAsnResults(data);
     } catch (error: unknown) {
       // eslint-disable-next-line no-console
@@ -414,7 +502,7 @@ export default function Home() {
                 lookupType === 'domain'
                   ? 'e.g., google.com'
                   : lookupType === 'ip'
-                    ? 'e.g., 8.8.8.8 or 2001:4860:4860::8888'
+                    ? 'e.g., 8.8.8.8, 2001:4860:4860::8888 or 8.8.8.0/24'
                     : 'e.g., AS15169 or 15169'
               }
               className={`w-full rounded-lg border-2 px-4 py-3 text-lg transition-colors duration-300 focus:outline-none focus:ring-2 ${
@@ -564,8 +652,50 @@ export default function Home() {
                       mode === 'dark' ? 'text-slate-200' : 'text-slate-900'
                     }`}
                   >
-                    {domainResults.domainName}
+                    {domainResults.unicodeName &&
+                    domainResults.unicodeName !== domainResults.ldhName ? (
+                      <>
+                        {domainResults.unicodeName}
+                        <span
+                          className={`block text-xs ${
+                            mode === 'dark'
+                              ? 'text-slate-400'
+                              : 'text-slate-500'
+                          }`}
+                        >
+                          {domainResults.ldhName}
+                        </span>
+                      </>
+                    ) : (
+                      domainResults.domainName
+                    )}
                   </dd>
+                  {domainResults.variants &&
+                    domainResults.variants.length > 0 && (
+                      <>
+                        <dt
+                          className={`font-medium transition-colors duration-300 ${
+                            mode === 'dark'
+                              ? 'text-indigo-200'
+                              : 'text-indigo-600'
+                          }`}
+                        >
+                          IDN Variants
+                        </dt>
+                        <dd
+                          className={`font-mono transition-colors duration-300 ${
+                            mode === 'dark'
+                              ? 'text-slate-200'
+                              : 'text-slate-900'
+                          }`}
+                        >
+                          {domainResults.variants
+                            .flatMap((variant) => variant.variantNames ?? [])
+                            .map((name) => name.unicodeName || name.ldhName)
+                            .join(', ')}
+                        </dd>
+                      </>
+                    )}
                   <dt
                     className={`font-medium transition-colors duration-300 ${
                       mode === 'dark' ? 'text-indigo-200' : 'text-indigo-600'
@@ -818,24 +948,49 @@ export default function Home() {
                     </h3>
                   </div>
                   <ul className='list-none space-y-2.5'>
-                    {domainResults.nameservers.map((ns, i) => (
-                      <li key={i} className='flex items-start'>
-                        <span
-                          className={`mr-2 mt-1.5 inline-block h-1.5 w-1.5 rounded-full ${
-                            mode === 'dark' ? 'bg-indigo-400' : 'bg-indigo-600'
-                          }`}
-                        ></span>
-                        <span
-                          className={`font-mono text-sm ${
-                            mode === 'dark'
-                              ? 'text-slate-200'
-                              : 'text-slate-900'
-                          }`}
-                        >
-                          {ns}
-                        </span>
-                      </li>
-                    ))}
+                    {domainResults.nameservers.map((ns, i) => {
+                      // Glue addresses, when the registry returns them
+                      const details = domainResults.nameserverDetails?.find(
+                        (detail) => detail.ldhName === ns.toLowerCase(),
+                      );
+                      const glue = details
+                        ? [...details.ipAddresses.v4, ...details.ipAddresses.v6]
+                        : [];
+
+                      return (
+                        <li key={i} className='flex items-start'>
+                          <span
+                            className={`mr-2 mt-1.5 inline-block h-1.5 w-1.5 rounded-full ${
+                              mode === 'dark'
+                                ? 'bg-indigo-400'
+                                : 'bg-indigo-600'
+                            }`}
+                          ></span>
+                          <div>
+                            <span
+                              className={`font-mono text-sm ${
+                                mode === 'dark'
+                                  ? 'text-slate-200'
+                                  : 'text-slate-900'
+                              }`}
+                            >
+                              {ns}
+                            </span>
+                            {glue.length > 0 && (
+                              <p
+                                className={`font-mono text-xs ${
+                                  mode === 'dark'
+                                    ? 'text-slate-400'
+                                    : 'text-slate-500'
+                                }`}
+                              >
+                                {glue.join(', ')}
+                              </p>
+                            )}
+                          </div>
+                        </li>
+                      );
+                    })}
                   </ul>
                 </div>
               </div>
@@ -1004,6 +1159,109 @@ export default function Home() {
                 : 'border-indigo-100 bg-white'
             }`}
           >
+            {/* On-demand lookups */}
+            {(!ipResults.hierarchy ||
+              !(ipResults.reverseDns || ipResults.reverseDnsError)) && (
+              <div className='flex flex-wrap gap-2'>
+                {(
+                  [
+                    ['hierarchy', 'Show allocation chain', ipResults.hierarchy],
+                    [
+                      'reverse',
+                      'Look up reverse DNS',
+                      ipResults.reverseDns || ipResults.reverseDnsError,
+                    ],
+                  ] as const
+                )
+                  .filter(([, , loaded]) => !loaded)
+                  .map(([detail, label]) => (
+                    <button
+                      key={detail}
+                      type='button'
+                      onClick={() => loadIPDetail(detail)}
+                      disabled={ipDetailLoading !== null}
+                      className={`rounded-md border px-3 py-1.5 text-sm font-medium transition-colors duration-300 disabled:cursor-not-allowed disabled:opacity-60 ${
+                        mode === 'dark'
+                          ? 'border-gray-600 bg-gray-700 text-indigo-200 hover:bg-gray-600'
+                          : 'border-indigo-200 bg-indigo-50 text-indigo-700 hover:bg-indigo-100'
+                      }`}
+                    >
+                      {ipDetailLoading === detail ? 'Loading...' : label}
+                    </button>
+                  ))}
+              </div>
+            )}
+
+            {/* Network Hierarchy Breadcrumb */}
+            {ipResults.hierarchy &&
+              (ipResults.hierarchy.parents.length > 0 ||
+                ipResults.hierarchy.children.length > 0) && (
+                <nav
+                  aria-label='Network hierarchy'
+                  className={`rounded-lg p-4 text-sm transition-colors duration-300 ${
+                    mode === 'dark'
+                      ? 'border border-gray-700 bg-gray-800/50'
+                      : 'border border-indigo-100 bg-indigo-50/50'
+                  }`}
+                >
+                  <ol className='flex flex-wrap items-center gap-x-2 gap-y-1'>
+                    {[
+                      ...ipResults.hierarchy.parents,
+                      {
+                        handle: ipResults.network.handle,
+                        name: ipResults.network.name,
+                        cidr: ipResults.network.cidr,
+                      },
+                    ].map((network, idx, chain) => (
+                      <li
+                        key={`${network.handle}-${idx}`}
+                        className='flex items-center gap-x-2'
+                      >
+                        <span
+                          title={network.name}
+                          className={`font-mono ${
+                            idx === chain.length - 1
+                              ? mode === 'dark'
+                                ? 'font-semibold text-white'
+                                : 'font-semibold text-indigo-900'
+                              : mode === 'dark'
+                                ? 'text-indigo-300'
+                                : 'text-indigo-600'
+                          }`}
+                        >
+                          {network.cidr || network.handle || network.name}
+                        </span>
+                        {idx < chain.length - 1 && (
+                          <span
+                            className={
+                              mode === 'dark'
+                                ? 'text-gray-500'
+                                : 'text-gray-400'
+                            }
+                          >
+                            ›
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                  {ipResults.hierarchy.children.length > 0 && (
+                    <p
+                      className={`mt-2 ${
+                        mode === 'dark' ? 'text-slate-300' : 'text-slate-600'
+                      }`}
+                    >
+                      Sub-networks:{' '}
+                      <span className='font-mono'>
+                        {ipResults.hierarchy.children
+                          .map((child) => child.cidr || child.handle)
+                          .join(', ')}
+                      </span>
+                    </p>
+                  )}
+                </nav>
+              )}
+
             <section className='space-y-5'>
               {/* Network Details Card */}
               <div
@@ -1037,7 +1295,9 @@ export default function Home() {
                       mode === 'dark' ? 'text-indigo-200' : 'text-indigo-600'
                     }`}
                   >
-                    IP Address
+                    {ipResults.ip.includes('/')
+                      ? 'Requested Prefix'
+                      : 'IP Address'}
                   </dt>
                   <dd
                     className={`font-mono transition-colors duration-300 ${
@@ -1046,6 +1306,30 @@ export default function Home() {
                   >
                     {ipResults.ip}
                   </dd>
+                  {ipResults.prefixMatch && (
+                    <>
+                      <dt
+                        className={`font-medium transition-colors duration-300 ${
+                          mode === 'dark'
+                            ? 'text-indigo-200'
+                            : 'text-indigo-600'
+                        }`}
+                      >
+                        Prefix Match
+                      </dt>
+                      <dd
+                        className={`transition-colors duration-300 ${
+                          mode === 'dark' ? 'text-slate-200' : 'text-slate-900'
+                        }`}
+                      >
+                        {ipResults.prefixMatch === 'exact'
+                          ? 'Registered network is exactly this prefix'
+                          : ipResults.prefixMatch === 'contains'
+                            ? 'Registered network contains this prefix'
+                            : 'Registered network only overlaps this prefix'}
+                      </dd>
+                    </>
+                  )}
                   <dt
                     className={`font-medium transition-colors duration-300 ${
                       mode === 'dark' ? 'text-indigo-200' : 'text-indigo-600'
@@ -1273,6 +1557,88 @@ export default function Home() {
                   </dl>
                 </div>
               )}
+              {ipResults.reverseDnsError && (
+                <p
+                  className={`text-sm ${
+                    mode === 'dark' ? 'text-slate-300' : 'text-slate-600'
+                  }`}
+                >
+                  Reverse DNS: {ipResults.reverseDnsError}
+                </p>
+              )}
+              {/* Reverse DNS Card */}
+              {ipResults.reverseDns && (
+                <div
+                  className={`rounded-lg p-5 shadow-md transition-colors duration-300 ${
+                    mode === 'dark'
+                      ? 'bg-gray-750 border border-gray-700'
+                      : 'border border-indigo-100 bg-white'
+                  }`}
+                >
+                  <div className='mb-3 flex items-center'>
+                    <div
+                      className={`mr-2 rounded-md p-1.5 ${
+                        mode === 'dark' ? 'bg-indigo-900/30' : 'bg-indigo-100'
+                      }`}
+                    >
+                      <Server
+                        className={`h-5 w-5 ${mode === 'dark' ? 'text-indigo-400' : 'text-indigo-600'}`}
+                      />
+                    </div>
+                    <h3
+                      className={`text-lg font-bold transition-colors duration-300 ${
+                        mode === 'dark' ? 'text-white' : 'text-indigo-900'
+                      }`}
+                    >
+                      Reverse DNS
+                    </h3>
+                  </div>
+                  <dl className='grid grid-cols-1 gap-x-4 gap-y-3 text-sm sm:grid-cols-2'>
+                    <dt
+                      className={`font-medium transition-colors duration-300 ${
+                        mode === 'dark' ? 'text-indigo-200' : 'text-indigo-600'
+                      }`}
+                    >
+                      Zone
+                    </dt>
+                    <dd
+                      className={`font-mono transition-colors duration-300 ${
+                        mode === 'dark' ? 'text-slate-200' : 'text-slate-900'
+                      }`}
+                    >
+                      {ipResults.reverseDns.zone}
+                    </dd>
+                    <dt
+                      className={`font-medium transition-colors duration-300 ${
+                        mode === 'dark' ? 'text-indigo-200' : 'text-indigo-600'
+                      }`}
+                    >
+                      Nameservers
+                    </dt>
+                    <dd
+                      className={`font-mono transition-colors duration-300 ${
+                        mode === 'dark' ? 'text-slate-200' : 'text-slate-900'
+                      }`}
+                    >
+                      {ipResults.reverseDns.nameservers.join(', ') || 'N/A'}
+                    </dd>
+                    <dt
+                      className={`font-medium transition-colors duration-300 ${
+                        mode === 'dark' ? 'text-indigo-200' : 'text-indigo-600'
+                      }`}
+                    >
+                      DNSSEC
+                    </dt>
+                    <dd
+                      className={`transition-colors duration-300 ${
+                        mode === 'dark' ? 'text-slate-200' : 'text-slate-900'
+                      }`}
+                    >
+                      {ipResults.reverseDns.dnssec}
+                    </dd>
+                  </dl>
+                </div>
+              )}
             </section>
 
             {/* IP Entities Section */}
@@ -1566,6 +1932,27 @@ export default function Home() {
                   >
                     AS{asnResults.range.start} - AS{asnResults.range.end}
                   </dd>
+                  {asnResults.delegation?.registry && (
+                    <>
+                      <dt
+                        className={`font-medium transition-colors duration-300 ${
+                          mode === 'dark'
+                            ? 'text-indigo-200'
+                            : 'text-indigo-600'
+                        }`}
+                      >
+                        Delegated To
+                      </dt>
+                      <dd
+                        className={`transition-colors duration-300 ${
+                          mode === 'dark' ? 'text-slate-200' : 'text-slate-900'
+                        }`}
+                      >
+                        {asnResults.delegation.registry} (block{' '}
+                        {asnResults.delegation.range})
+                      </dd>
+                    </>
+                  )}
                   {asnResults.name && (
                     <>
                       <dt
@@ -4,3 +4,42 @@ export const isLocal = process.env.NODE_ENV === 'development';
 export const showLogger = isLocal
   ? true
   : (process.env.NEXT_PUBLIC_SHOW_LOGGER === 'true' ?? false);
+
+const BOOTSTRAP_MODES = ['live', 'offline', 'fallback'] as const;
+
+export type BootstrapMode = (typeof BOOTSTRAP_MODES)[number];
+
+/**
+ * Read RDAP_BOOTSTRAP_MODE, refusing unknown values rather than quietly
+ * treating a typo as the default
+ */
+function parseBootstrapMode(value: string | undefined): BootstrapMode {
+  if (value === undefined) return 'fallback';
+
+  const mode = BOOTSTRAP_MODES.find((known) => known === value);
+  if (!mode) {
+    throw new Error(
+      `Invalid RDAP_BOOTSTRAP_MODE '${value}'; expected live, offline or fallback`,
+    );
+  }
+  return mode;
+}
+
+/** Where IANA bootstrap data comes from: live, offline snapshot, or live with snapshot fallback */
+export const bootstrapMode = parseBootstrapMode(
+  process.env.RDAP_BOOTSTRAP_MODE,
+);
+
+/** Timeout and retry budget for each upstream RDAP server */
+export const rdapTimeout = Number(process.env.RDAP_TIMEOUT_MS ?? 10000);
+export const rdapMaxRetries = Number(process.env.RDAP_MAX_RETRIES ?? 2);
+
+/** Lookup result cache: TTL in seconds per object type (0 disables) and LRU size */
+export const lookupCacheTtl = {
+  domain: Number(process.env.RDAP_CACHE_TTL_DOMAIN ?? 300),
+  ip: Number(process.env.RDAP_CACHE_TTL_IP ?? 3600),
+  asn: Number(process.env.RDAP_CACHE_TTL_ASN ?? 3600),
+};
+export const lookupCacheMaxEntries = Number(
+  process.env.RDAP_CACHE_MAX_ENTRIES ?? 1000,
+);
@@ -0,0 +1,12 @@
+// Bundled IANA RDAP bootstrap snapshot, generated with `npm run bootstrap:refresh`;
+// empty until then (manifest.refreshedAt is null)
+import asn from './asn.json';
+import dns from './dns.json';
+import ipv4 from './ipv4.json';
+import ipv6 from './ipv6.json';
+import manifest from './manifest.json';
+import objectTags from './object-tags.json';
+
+export const bootstrapSnapshot = { asn, dns, ipv4, ipv6, objectTags };
+
+export const snapshotManifest = manifest;
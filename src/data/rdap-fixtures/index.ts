@@ -0,0 +1,33 @@
+// Recorded RDAP responses served by the stub server in src/lib/rdap-stub.ts
+import afrinic from './afrinic.json';
+import apnic from './apnic.json';
+import arin from './arin.json';
+import asnBootstrap from './bootstrap/asn.json';
+import dnsBootstrap from './bootstrap/dns.json';
+import ipv4Bootstrap from './bootstrap/ipv4.json';
+import ipv6Bootstrap from './bootstrap/ipv6.json';
+import objectTagsBootstrap from './bootstrap/object-tags.json';
+import denic from './denic.json';
+import lacnic from './lacnic.json';
+import ripe from './ripe.json';
+import verisign from './verisign.json';
+
+export const rdapFixtures = {
+  afrinic,
+  apnic,
+  arin,
+  denic,
+  lacnic,
+  ripe,
+  verisign,
+};
+
+// Hand-picked subsets of the IANA bootstrap registries that route the
+// recorded responses above; not a copy of the real files
+export const bootstrapFixtures = {
+  asn: asnBootstrap,
+  dns: dnsBootstrap,
+  ipv4: ipv4Bootstrap,
+  ipv6: ipv6Bootstrap,
+  objectTags: objectTagsBootstrap,
+};
@@ -0,0 +1,35 @@
+import { buildAsnRangeIndex } from '@/lib/asn-range-index';
+
+const ARIN = [
+  'https://rdap.arin.net/registry/',
+  'http://rdap.arin.net/registry/',
+];
+const RIPE = ['https://rdap.db.ripe.net/'];
+
+describe('ASN range index should find the delegated block', () => {
+  const index = buildAsnRangeIndex([
+    [['1-1876', '1902-2042', '2044-2046'], ARIN],
+    [['1877-1901', '2043', '196608-213403'], RIPE],
+  ]);
+
+  it('should find ranges and single-number blocks', () => {
+    expect(index.size).toBe(6);
+    expect(index.lookup(1)?.range).toBe('1-1876');
+    expect(index.lookup(1876)?.range).toBe('1-1876');
+    expect(index.lookup(1877)?.urls).toBe(RIPE);
+    expect(index.lookup(2043)?.range).toBe('2043');
+    expect(index.lookup(2045)?.urls).toBe(ARIN);
+    expect(index.lookup(200000)?.range).toBe('196608-213403');
+  });
+
+  it('should return null for gaps between blocks', () => {
+    expect(index.lookup(0)).toBeNull();
+    expect(index.lookup(2047)).toBeNull();
+    expect(index.lookup(4294967294)).toBeNull();
+  });
+
+  it('should name the registry owning each block', () => {
+    expect(index.lookup(100)?.registry).toBe('ARIN');
+    expect(index.lookup(2043)?.registry).toBe('RIPE NCC');
+  });
+});
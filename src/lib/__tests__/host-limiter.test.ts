@@ -0,0 +1,78 @@
+import {
+  acquireHostSlot,
+  getHostLimiterStats,
+  resetHostLimiters,
+} from '@/lib/host-limiter';
+import { RdapQueueTimeoutError } from '@/lib/rdap-errors';
+
+const flush = () =>
+  new Promise((resolve) => jest.requireActual('timers').setImmediate(resolve));
+
+describe('Host limiter should bound outbound queries per RDAP server', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    process.env.RDAP_HOST_LIMITS = JSON.stringify({
+      default: { rate: 100, burst: 100, maxConcurrent: 10 },
+      hosts: {
+        'rdap.slow.example': {
+          rate: 1,
+          burst: 1,
+          maxConcurrent: 1,
+          queueTimeoutMs: 5000,
+        },
+      },
+    });
+    resetHostLimiters();
+  });
+
+  afterEach(() => {
+    resetHostLimiters();
+    delete process.env.RDAP_HOST_LIMITS;
+    jest.useRealTimers();
+  });
+
+  it('should queue requests beyond the concurrency limit', async () => {
+    const release = await acquireHostSlot('https://rdap.slow.example/ip/1');
+    const next = jest.fn();
+    acquireHostSlot('https://rdap.slow.example/ip/2').then(next);
+
+    expect(getHostLimiterStats()[0]).toMatchObject({
+      host: 'rdap.slow.example',
+      active: 1,
+      queued: 1,
+    });
+
+    // Freeing the slot is not enough until the bucket has a token again
+    release();
+    await flush();
+    expect(next).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    await flush();
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should time out requests that wait too long', async () => {
+    await acquireHostSlot('https://rdap.slow.example/ip/1');
+    const queued = acquireHostSlot('https://rdap.slow.example/ip/2');
+
+    jest.advanceTimersByTime(5000);
+
+    await expect(queued).rejects.toBeInstanceOf(RdapQueueTimeoutError);
+    expect(getHostLimiterStats()[0].queued).toBe(0);
+  });
+
+  it('should apply the default limits to other hosts', async () => {
+    await Promise.all(
+      [1, 2, 3].map((n) =>
+        acquireHostSlot(`https://rdap.fast.example/ip/${n}`),
+      ),
+    );
+
+    expect(getHostLimiterStats()[0]).toMatchObject({
+      host: 'rdap.fast.example',
+      active: 3,
+      limits: { maxConcurrent: 10, queueTimeoutMs: 10000 },
+    });
+  });
+});
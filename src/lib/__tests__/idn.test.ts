@@ -0,0 +1,80 @@
+import { normalizeDomainName, toUnicodeName } from '@/lib/idn';
+import { lookupDomain, normalizeRdapResponse } from '@/lib/rdap';
+import { clearBootstrapCache } from '@/lib/rdap-bootstrap';
+import { RdapValidationError } from '@/lib/rdap-errors';
+import { createStubRdapServer } from '@/lib/rdap-stub';
+
+describe('Domain names should be converted with UTS-46', () => {
+  it.each([
+    ['Example.COM.', 'example.com', 'example.com'],
+    ['München.de', 'xn--mnchen-3ya.de', 'münchen.de'],
+    ['xn--mnchen-3ya.de', 'xn--mnchen-3ya.de', 'münchen.de'],
+    ['例え.テスト', 'xn--r8jz45g.xn--zckzah', '例え.テスト'],
+    ['faß.de', 'xn--fa-hia.de', 'faß.de'],
+  ])('should convert %s', (input, ldhName, unicodeName) => {
+    expect(normalizeDomainName(input)).toMatchObject({
+      isValid: true,
+      ldhName,
+      unicodeName,
+    });
+  });
+
+  it.each(['', 'localhost', 'bad..example', '-bad.example', 'xn--zz.com'])(
+    'should reject %p',
+    (input) => {
+      expect(normalizeDomainName(input).isValid).toBe(false);
+    },
+  );
+
+  it('should only produce U-labels for IDNs', () => {
+    expect(toUnicodeName('XN--MNCHEN-3YA.DE')).toBe('münchen.de');
+    expect(toUnicodeName('example.com')).toBeUndefined();
+  });
+});
+
+describe('Domain results should expose both forms of an IDN', () => {
+  const { transport, requests } = createStubRdapServer();
+
+  beforeEach(() => {
+    clearBootstrapCache();
+    requests.length = 0;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should query the registry with A-labels', async () => {
+    const result = await lookupDomain('Bücher.de', { transport });
+
+    expect(requests).toContain('https://rdap.denic.de/domain/xn--bcher-kva.de');
+    expect(result).toMatchObject({
+      ldhName: 'xn--bcher-kva.de',
+      unicodeName: 'bücher.de',
+    });
+  });
+
+  it('should reject names that are not valid IDNs', async () => {
+    await expect(
+      lookupDomain('xn--zz.com', { transport }),
+    ).rejects.toBeInstanceOf(RdapValidationError);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should derive unicodeName and keep variants', () => {
+    const result = normalizeRdapResponse({
+      ldhName: 'XN--FIQS8S.ORG',
+      variants: [
+        {
+          relation: ['registered'],
+          idnTable: 'zh',
+          variantNames: [
+            { ldhName: 'xn--fiqz9s.org', unicodeName: '中國.org' },
+          ],
+        },
+      ],
+    });
+
+    expect(result.unicodeName).toBe('中国.org');
+    expect(result.variants?.[0].variantNames?.[0].unicodeName).toBe('中國.org');
+  });
+});
@@ -0,0 +1,64 @@
+import { coalesceLookup, getInFlightCount } from '@/lib/inflight';
+import { lookupIP } from '@/lib/ip-rdap';
+import { clearBootstrapCache } from '@/lib/rdap-bootstrap';
+import { createStubRdapServer } from '@/lib/rdap-stub';
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe('In-flight lookups should be shared by concurrent callers', () => {
+  it('should run one lookup and give every caller the same result', async () => {
+    const upstream = deferred<{ ip: string }>();
+    const run = jest.fn(() => upstream.promise);
+
+    const first = coalesceLookup('ip:192.0.2.1', run);
+    const second = coalesceLookup('ip:192.0.2.1', run);
+    expect(getInFlightCount()).toBe(1);
+
+    upstream.resolve({ ip: '192.0.2.1' });
+
+    expect(await first).toBe(await second);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(getInFlightCount()).toBe(0);
+  });
+
+  it('should propagate errors to every waiter and then allow a retry', async () => {
+    const upstream = deferred<never>();
+    const run = jest.fn(() => upstream.promise);
+
+    const waiters = [
+      coalesceLookup('asn:15169', run),
+      coalesceLookup('asn:15169', run),
+    ];
+    upstream.reject(new Error('upstream down'));
+
+    for (const waiter of waiters) {
+      await expect(waiter).rejects.toThrow('upstream down');
+    }
+
+    await coalesceLookup('asn:15169', async () => 'retried');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share IP lookups however the IPv6 address is written', async () => {
+    const { transport, requests } = createStubRdapServer();
+    clearBootstrapCache();
+
+    const [first, second] = await Promise.all([
+      lookupIP('2001:4860:4860::8888', { transport }),
+      lookupIP('2001:4860:4860:0:0:0:0:8888', { transport }),
+    ]);
+
+    expect(first).toBe(second);
+    expect(requests.filter((url) => url.includes('/ip/'))).toEqual([
+      'https://rdap.arin.net/registry/ip/2001:4860:4860::8888',
+    ]);
+  });
+});
@@ -0,0 +1,251 @@
+import { lookupIP } from '@/lib/ip-rdap';
+import { clearBootstrapCache } from '@/lib/rdap-bootstrap';
+import { createStubRdapServer, RdapFixtureSet } from '@/lib/rdap-stub';
+
+const RIPE = 'https://rdap.db.ripe.net/';
+
+/**
+ * A minimal RDAP ip network object
+ */
+const network = (
+  handle: string,
+  startAddress: string,
+  endAddress: string,
+  extra: Record<string, unknown> = {},
+) => ({
+  objectClassName: 'ip network',
+  handle,
+  startAddress,
+  endAddress,
+  ...extra,
+});
+
+describe('IP lookups should follow parentHandle to the allocation', () => {
+  const { transport, requests } = createStubRdapServer();
+
+  beforeEach(() => {
+    clearBootstrapCache();
+    requests.length = 0;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should query one bit shorter for IPv4 networks', async () => {
+    const result = await lookupIP('8.8.8.8', { transport, hierarchy: true });
+
+    expect(result.network.cidr).toBe('8.8.8.0/24');
+    expect(result.hierarchy?.parents.map((parent) => parent.handle)).toEqual([
+      'NET-8-0-0-0-0',
+      'NET-8-0-0-0-1',
+    ]);
+    expect(result.hierarchy?.parents[1].cidr).toBe('8.0.0.0/9');
+    expect(requests).toEqual(
+      expect.arrayContaining([
+        'https://rdap.arin.net/registry/ip/8.8.8.0/23',
+        'https://rdap.arin.net/registry/ip/8.0.0.0/8',
+      ]),
+    );
+  });
+
+  it('should query one bit shorter for IPv6 networks', async () => {
+    const result = await lookupIP('2001:4860:4860::8888', {
+      transport,
+      hierarchy: true,
+    });
+
+    expect(result.network.cidr).toBe('2001:4860::/32');
+    expect(result.hierarchy?.parents).toEqual([
+      expect.objectContaining({
+        handle: 'NET6-2001-4800-0',
+        cidr: '2001:4800::/23',
+      }),
+    ]);
+    expect(requests).toContain(
+      'https://rdap.arin.net/registry/ip/2001:4860::/31',
+    );
+  });
+
+  it('should leave the hierarchy out unless asked', async () => {
+    const result = await lookupIP('8.8.8.8', { transport });
+
+    expect(result.hierarchy).toBeUndefined();
+    expect(requests).not.toContain(
+      'https://rdap.arin.net/registry/ip/8.8.8.0/23',
+    );
+  });
+});
+
+describe('IP network ranges should only be labelled as exact CIDR blocks', () => {
+  const fixtures: RdapFixtureSet = {
+    rdapServer: RIPE,
+    responses: {
+      // Starts on an odd /24, so its /23 parent starts one block lower
+      'ip/193.2.9.1': network('ODD', '193.2.9.0', '193.2.9.255', {
+        parentHandle: 'PARENT',
+      }),
+      'ip/193.2.8.0/23': network('PARENT', '193.2.8.0', '193.2.9.255'),
+      // 128 addresses, but not aligned on a /25 boundary
+      'ip/193.2.0.65': network('UNALIGNED', '193.2.0.64', '193.2.0.191', {
+        parentHandle: 'PARENT',
+      }),
+      // Three addresses: no prefix spans exactly this range
+      'ip/193.2.1.1': network('UNEVEN', '193.2.1.0', '193.2.1.2', {
+        parentHandle: 'PARENT',
+      }),
+    },
+  };
+  const { transport, requests } = createStubRdapServer([fixtures]);
+
+  beforeEach(() => {
+    clearBootstrapCache();
+    requests.length = 0;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should clear host bits when querying the shorter prefix', async () => {
+    const result = await lookupIP('193.2.9.1', { transport, hierarchy: true });
+
+    expect(result.network.cidr).toBe('193.2.9.0/24');
+    expect(result.hierarchy?.parents).toEqual([
+      expect.objectContaining({ handle: 'PARENT', cidr: '193.2.8.0/23' }),
+    ]);
+    expect(requests).toContain(`${RIPE}ip/193.2.8.0/23`);
+  });
+
+  it('should show an unaligned range as start-end', async () => {
+    const result = await lookupIP('193.2.0.65', { transport, hierarchy: true });
+
+    expect(result.network.cidr).toBe('193.2.0.64-193.2.0.191');
+    expect(result.hierarchy?.parents).toEqual([]);
+  });
+
+  it('should show a range that is not a power of two as start-end', async () => {
+    const result = await lookupIP('193.2.1.1', { transport, hierarchy: true });
+
+    expect(result.network.cidr).toBe('193.2.1.0-193.2.1.2');
+    expect(result.hierarchy?.parents).toEqual([]);
+  });
+});
+
+describe('IP lookups should follow up, down and related links', () => {
+  const fixtures: RdapFixtureSet = {
+    rdapServer: RIPE,
+    responses: {
+      'ip/193.0.10.1': network('ASSIGN', '193.0.10.0', '193.0.10.255', {
+        parentHandle: 'LIR',
+        links: [
+          { rel: 'up', href: `${RIPE}ip/193.0.8.0/21` },
+          { rel: 'down', href: `${RIPE}ip/193.0.10.0/25` },
+          { rel: 'related', href: `${RIPE}ips/rirSearch1/193.0.10.0/24` },
+        ],
+      }),
+      'ip/193.0.8.0/21': network('LIR', '193.0.8.0', '193.0.15.255', {
+        parentHandle: 'RIR',
+        links: [{ rel: 'up', href: `${RIPE}ip/193.0.0.0/16` }],
+      }),
+      // Points back down to the LIR network, which was already visited
+      'ip/193.0.0.0/16': network('RIR', '193.0.0.0', '193.0.255.255', {
+        links: [{ rel: 'up', href: `${RIPE}ip/193.0.8.0/21` }],
+      }),
+      'ip/193.0.10.0/25': network('CHILD-1', '193.0.10.0', '193.0.10.127', {
+        parentHandle: 'ASSIGN',
+      }),
+      'ips/rirSearch1/193.0.10.0/24': {
+        ipSearchResults: [
+          network('ASSIGN', '193.0.10.0', '193.0.10.255'),
+          network('CHILD-2', '193.0.10.128', '193.0.10.255', {
+            parentHandle: 'ASSIGN',
+          }),
+          network('UNRELATED', '193.0.10.0', '193.0.10.15', {
+            parentHandle: 'SOMEONE-ELSE',
+          }),
+        ],
+      },
+    },
+  };
+  const { transport, requests } = createStubRdapServer([fixtures]);
+
+  beforeEach(() => {
+    clearBootstrapCache();
+    requests.length = 0;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should list ancestors outermost first and stop at a cycle', async () => {
+    const result = await lookupIP('193.0.10.1', { transport, hierarchy: true });
+
+    expect(result.hierarchy?.parents.map((parent) => parent.handle)).toEqual([
+      'RIR',
+      'LIR',
+    ]);
+    expect(
+      requests.filter((url) => url === `${RIPE}ip/193.0.8.0/21`),
+    ).toHaveLength(2);
+  });
+
+  it('should keep only children that name the network as parent', async () => {
+    const result = await lookupIP('193.0.10.1', { transport, hierarchy: true });
+
+    expect(result.hierarchy?.children.map((child) => child.handle)).toEqual([
+      'CHILD-1',
+      'CHILD-2',
+    ]);
+  });
+});
+
+describe('The hierarchy walk should be bounded', () => {
+  // A chain of /24s, each pointing up to the next
+  const chain: Record<string, unknown> = {};
+  for (let i = 0; i < 12; i++) {
+    chain[`ip/193.1.${i}.0/24`] = network(
+      `NET-${i}`,
+      `193.1.${i}.0`,
+      `193.1.${i}.255`,
+      {
+        links: [
+          { rel: 'up', href: `${RIPE}ip/193.1.${i + 1}.0/24` },
+          ...Array.from({ length: 7 }, (_, link) => ({
+            rel: 'down',
+            href: `${RIPE}ips/children/${link}`,
+          })),
+        ],
+      },
+    );
+  }
+  for (let link = 0; link < 7; link++) {
+    chain[`ips/children/${link}`] = {
+      ipSearchResults: Array.from({ length: 15 }, (_, child) =>
+        network(`CHILD-${link}-${child}`, '193.1.0.0', '193.1.0.0'),
+      ),
+    };
+  }
+  chain['ip/193.1.0.1'] = chain['ip/193.1.0.0/24'];
+
+  const { transport, requests } = createStubRdapServer([
+    { rdapServer: RIPE, responses: chain },
+  ]);
+
+  beforeEach(() => {
+    clearBootstrapCache();
+    requests.length = 0;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should cap the parents, child links and children', async () => {
+    const result = await lookupIP('193.1.0.1', { transport, hierarchy: true });
+
+    expect(result.hierarchy?.parents).toHaveLength(8);
+    expect(result.hierarchy?.parents[0].handle).toBe('NET-8');
+    expect(requests.filter((url) => url.includes('/ips/children/'))).toEqual(
+      [0, 1, 2, 3, 4].map((link) => `${RIPE}ips/children/${link}`),
+    );
+    expect(result.hierarchy?.children).toHaveLength(50);
+  });
+});
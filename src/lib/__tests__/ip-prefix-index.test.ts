@@ -0,0 +1,84 @@
+import { buildPrefixIndex, getPrefixIndex } from '@/lib/ip-prefix-index';
+
+const RIR_A = ['https://rdap.a.example/'];
+const RIR_B = ['https://rdap.b.example/'];
+const RIR_C = ['https://rdap.c.example/'];
+
+describe('IP prefix index should pick the longest matching prefix', () => {
+  it('should prefer nested IPv4 prefixes over their parents', () => {
+    const index = buildPrefixIndex(
+      [
+        [['10.0.0.0/8'], RIR_A],
+        [['10.1.0.0/16', '192.0.2.0/24'], RIR_B],
+        [['10.1.2.0/24'], RIR_C],
+      ],
+      'IPv4',
+    );
+
+    expect(index.size).toBe(4);
+    expect(index.lookup('10.9.9.9')?.urls).toBe(RIR_A);
+    expect(index.lookup('10.1.9.9')?.urls).toBe(RIR_B);
+    expect(index.lookup('10.1.2.3')?.urls).toBe(RIR_C);
+    expect(index.lookup('192.0.2.200')?.prefix).toBe('192.0.2.0/24');
+    expect(index.lookup('11.0.0.1')).toBeNull();
+  });
+
+  it('should not depend on the order prefixes are listed in', () => {
+    const index = buildPrefixIndex(
+      [
+        [['2001:db8:1::/48'], RIR_B],
+        [['2001:db8::/32'], RIR_A],
+      ],
+      'IPv6',
+    );
+
+    expect(index.lookup('2001:db8:1::1')?.urls).toBe(RIR_B);
+    expect(index.lookup('2001:db8:2::1')?.urls).toBe(RIR_A);
+    expect(index.lookup('2001:db9::1')).toBeNull();
+  });
+
+  it('should keep the first service when the same prefix overlaps', () => {
+    const index = buildPrefixIndex(
+      [
+        [['2600::/12'], RIR_A],
+        [['2600::/12'], RIR_B],
+      ],
+      'IPv6',
+    );
+
+    expect(index.size).toBe(1);
+    expect(index.lookup('2600:1f18::1')?.urls).toBe(RIR_A);
+  });
+
+  it('should match prefixes only against covering entries', () => {
+    const index = buildPrefixIndex(
+      [
+        [['10.0.0.0/8'], RIR_A],
+        [['10.1.0.0/16'], RIR_B],
+      ],
+      'IPv4',
+    );
+
+    expect(index.lookup('10.1.0.0/24')?.urls).toBe(RIR_B);
+    expect(index.lookup('10.0.0.0/12')?.urls).toBe(RIR_A);
+    expect(index.lookup('10.0.0.0/7')).toBeNull();
+  });
+
+  it('should ignore malformed prefixes and addresses', () => {
+    const index = buildPrefixIndex([[['not-a-cidr'], RIR_A]], 'IPv4');
+
+    expect(index.size).toBe(0);
+    expect(index.lookup('not-an-ip')).toBeNull();
+  });
+
+  it('should compile each bootstrap services list only once', () => {
+    const services: [string[], string[]][] = [[['10.0.0.0/8'], RIR_A]];
+
+    expect(getPrefixIndex(services, 'IPv4')).toBe(
+      getPrefixIndex(services, 'IPv4'),
+    );
+    expect(getPrefixIndex([...services], 'IPv4')).not.toBe(
+      getPrefixIndex(services, 'IPv4'),
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import { lookupIP } from '@/lib/ip-rdap';
+import { comparePrefix, validateIPPrefix } from '@/lib/ip-utils';
+import { clearBootstrapCache } from '@/lib/rdap-bootstrap';
+import {
+  RdapUnsupportedAddressError,
+  RdapValidationError,
+} from '@/lib/rdap-errors';
+import { createStubRdapServer } from '@/lib/rdap-stub';
+
+describe('CIDR prefixes should be validated and normalized', () => {
+  it('should accept IPv4 and IPv6 prefixes', () => {
+    expect(validateIPPrefix('192.0.2.0/24')).toMatchObject({
+      isValid: true,
+      version: 'IPv4',
+      normalized: '192.0.2.0/24',
+      network: '192.0.2.0',
+      prefixLength: 24,
+    });
+    expect(validateIPPrefix('2001:DB8::/32')).toMatchObject({
+      isValid: true,
+      version: 'IPv6',
+      normalized: '2001:db8::/32',
+    });
+  });
+
+  it('should clear host bits', () => {
+    expect(validateIPPrefix('192.0.2.77/26').normalized).toBe('192.0.2.64/26');
+    expect(validateIPPrefix('2001:db8:1234::1/32').normalized).toBe(
+      '2001:db8::/32',
+    );
+  });
+
+  it.each(['192.0.2.0/33', '2001:db8::/129', '192.0.2.0/', '192.0.2.0/24/8'])(
+    'should reject %s',
+    (prefix) => {
+      expect(validateIPPrefix(prefix).isValid).toBe(false);
+    },
+  );
+
+  it('should compare a registered range with the prefix', () => {
+    expect(comparePrefix('192.0.2.0', '192.0.2.255', '192.0.2.0/24')).toBe(
+      'exact',
+    );
+    expect(comparePrefix('192.0.0.0', '192.0.3.255', '192.0.2.0/24')).toBe(
+      'contains',
+    );
+    expect(comparePrefix('192.0.2.0', '192.0.2.127', '192.0.2.0/24')).toBe(
+      'overlaps',
+    );
+    expect(
+      comparePrefix('2001:db8::', '2001:db8:ffff:ffff::', '2001:db8::/32'),
+    ).toBe('overlaps');
+  });
+});
+
+describe('IP lookups should accept CIDR prefixes', () => {
+  const { transport, requests } = createStubRdapServer();
+
+  beforeEach(() => {
+    clearBootstrapCache();
+    requests.length = 0;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should query the prefix at the RIR serving its network address', async () => {
+    const result = await lookupIP('8.8.8.0/24', { transport });
+
+    expect(requests).toContain('https://rdap.arin.net/registry/ip/8.8.8.0/24');
+    expect(result.ip).toBe('8.8.8.0/24');
+    expect(result.prefixMatch).toBe('exact');
+    expect(result.network.handle).toBe('NET-8-8-8-0-2');
+  });
+
+  it('should report networks that contain the prefix', async () => {
+    const result = await lookupIP('8.8.8.200/25', { transport });
+
+    expect(result.ip).toBe('8.8.8.128/25');
+    expect(result.prefixMatch).toBe('contains');
+  });
+
+  it('should not report a match for single addresses', async () => {
+    const result = await lookupIP('8.8.8.8', { transport });
+
+    expect(result.prefixMatch).toBeUndefined();
+  });
+
+  it('should reject invalid and private prefixes', async () => {
+    await expect(lookupIP('8.8.8.0/40', { transport })).rejects.toThrow(
+      RdapValidationError,
+    );
+    await expect(lookupIP('10.0.0.0/8', { transport })).rejects.toThrow(
+      RdapUnsupportedAddressError,
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  cachedLookup,
+  clearLookupCache,
+  getLookupCacheStats,
+} from '@/lib/lookup-cache';
+
+jest.mock('@/constant/env', () => ({
+  lookupCacheTtl: { domain: 60, ip: 0, asn: 60 },
+  lookupCacheMaxEntries: 2,
+}));
+
+describe('Lookup cache should reuse results within their TTL', () => {
+  let now = Date.now();
+
+  beforeEach(() => {
+    clearLookupCache();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should serve a hit with the same ETag until it expires', async () => {
+    const load = jest.fn(async () => ({ domainName: 'example.com' }));
+
+    const miss = await cachedLookup('domain', 'Example.com', load);
+    now += 30 * 1000;
+    const hit = await cachedLookup('domain', 'example.com', load);
+
+    expect(miss.hit).toBe(false);
+    expect(hit).toMatchObject({ hit: true, etag: miss.etag });
+    expect(load).toHaveBeenCalledTimes(1);
+
+    now += 31 * 1000;
+    expect((await cachedLookup('domain', 'example.com', load)).hit).toBe(false);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should bypass the cached copy when fresh is requested', async () => {
+    const load = jest.fn(async () => ({ asn: 15169 }));
+
+    await cachedLookup('asn', '15169', load);
+    const fresh = await cachedLookup('asn', '15169', load, { fresh: true });
+
+    expect(fresh.hit).toBe(false);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const load = async () => ({});
+
+    await cachedLookup('asn', '1', load);
+    await cachedLookup('asn', '2', load);
+    await cachedLookup('asn', '1', load);
+    await cachedLookup('asn', '3', load);
+
+    expect(getLookupCacheStats().size).toBe(2);
+    expect((await cachedLookup('asn', '1', load)).hit).toBe(true);
+    expect((await cachedLookup('asn', '2', load)).hit).toBe(false);
+  });
+
+  it('should not cache errors or types with a TTL of zero', async () => {
+    const failing = jest.fn(async () => {
+      throw new Error('upstream down');
+    });
+
+    await expect(cachedLookup('domain', 'down.test', failing)).rejects.toThrow(
+      'upstream down',
+    );
+    await cachedLookup('ip', '192.0.2.1', async () => ({}));
+
+    expect(getLookupCacheStats().size).toBe(0);
+  });
+});
@@ -0,0 +1,210 @@
+import {
+  clearBootstrapCache,
+  fetchBootstrapData,
+  getCacheStats,
+  refreshBootstrapData,
+} from '@/lib/rdap-bootstrap';
+
+import { snapshotManifest } from '@/data/bootstrap';
+
+// Stands in for a snapshot generated by npm run bootstrap:refresh
+jest.mock('@/data/bootstrap', () => ({
+  bootstrapSnapshot: jest.requireActual('@/data/rdap-fixtures')
+    .bootstrapFixtures,
+  snapshotManifest: {
+    version: '2026-10-01',
+    refreshedAt: '2026-10-01T00:00:00.000Z',
+    source: '/srv/mirror/rdap',
+    files: {},
+  },
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const bootstrapFile = (publication: string) => ({
+  description: 'test',
+  publication,
+  services: [[['test'], ['https://rdap.example/']]],
+  version: '1.0',
+});
+
+const jsonResponse = (body: unknown, headers: Record<string, string> = {}) =>
+  ({
+    ok: true,
+    status: 200,
+    headers: new Headers(headers),
+    json: async () => body,
+  }) as Response;
+
+describe('Bootstrap cache should serve stale data while revalidating', () => {
+  const fetchMock = jest.fn();
+  let now = Date.now();
+
+  beforeEach(() => {
+    clearBootstrapCache();
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should revalidate expired data in the background with an ETag', async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse(bootstrapFile('2026-01-01'), { etag: '"v1"' }),
+    );
+    expect((await fetchBootstrapData('dns')).publication).toBe('2026-01-01');
+
+    now += DAY + 1;
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 304 } as Response);
+
+    // The stale copy is returned without waiting for IANA
+    expect((await fetchBootstrapData('dns')).publication).toBe('2026-01-01');
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      'https://data.iana.org/rdap/dns.json',
+      { headers: { 'If-None-Match': '"v1"' } },
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(getCacheStats().entries[0]).toMatchObject({
+      stale: false,
+      source: 'live',
+    });
+  });
+
+  it('should keep the last good copy when a refresh fails', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(bootstrapFile('2026-01-01')));
+    await fetchBootstrapData('asn');
+
+    now += DAY + 1;
+    fetchMock.mockRejectedValueOnce(new Error('network down'));
+    await fetchBootstrapData('asn');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect((await fetchBootstrapData('asn')).publication).toBe('2026-01-01');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to the bundled snapshot without a cached copy', async () => {
+    fetchMock.mockRejectedValueOnce(new Error('network down'));
+
+    const data = await fetchBootstrapData('ipv4');
+
+    expect(data.services.length).toBeGreaterThan(0);
+    expect(getCacheStats().entries[0].source).toBe('snapshot');
+  });
+
+  it('should fail clearly when no snapshot has been generated', async () => {
+    const manifest = snapshotManifest as { refreshedAt: string | null };
+    const refreshedAt = manifest.refreshedAt;
+    manifest.refreshedAt = null;
+    fetchMock.mockRejectedValueOnce(new Error('network down'));
+
+    try {
+      await expect(fetchBootstrapData('ipv4')).rejects.toThrow(
+        'npm run bootstrap:refresh',
+      );
+    } finally {
+      manifest.refreshedAt = refreshedAt;
+    }
+  });
+});
+
+describe('Forced bootstrap refreshes should report changes', () => {
+  const fetchMock = jest.fn();
+  let now = Date.now();
+
+  beforeEach(() => {
+    clearBootstrapCache();
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should list added, removed and changed entries', async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({
+        ...bootstrapFile('2026-01-01'),
+        services: [
+          [['com', 'net'], ['https://rdap.verisign.com/']],
+          [['org'], ['https://rdap.pir.example/']],
+        ],
+      }),
+    );
+    await fetchBootstrapData('dns');
+
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({
+        ...bootstrapFile('2026-02-01'),
+        services: [
+          [['com'], ['https://rdap.verisign.com/']],
+          [['org'], ['https://rdap.publicinterestregistry.example/']],
+          [['dev'], ['https://rdap.nic.google/']],
+        ],
+      }),
+    );
+
+    await expect(refreshBootstrapData('dns')).resolves.toEqual({
+      type: 'dns',
+      previousPublication: '2026-01-01',
+      publication: '2026-02-01',
+      source: 'live',
+      added: ['dev'],
+      removed: ['net'],
+      changed: ['org'],
+    });
+  });
+
+  it('should not be overwritten by a background revalidation', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(bootstrapFile('2026-01-01')));
+    await fetchBootstrapData('dns');
+
+    // The background revalidation answers only after the forced refresh
+    let answerRevalidation: (response: Response) => void = () => undefined;
+    fetchMock.mockImplementationOnce(
+      () => new Promise((resolve) => (answerRevalidation = resolve)),
+    );
+    now += DAY + 1;
+    await fetchBootstrapData('dns');
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(bootstrapFile('2026-03-01')));
+    const refresh = refreshBootstrapData('dns');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    answerRevalidation(jsonResponse(bootstrapFile('2026-02-01')));
+
+    expect((await refresh).publication).toBe('2026-03-01');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect((await fetchBootstrapData('dns')).publication).toBe('2026-03-01');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('RDAP_BOOTSTRAP_MODE', () => {
+  const env: Record<string, string | undefined> = process.env;
+
+  afterEach(() => {
+    delete env.RDAP_BOOTSTRAP_MODE;
+  });
+
+  it('should default to falling back on the snapshot', () => {
+    jest.isolateModules(() => {
+      expect(jest.requireActual('@/constant/env').bootstrapMode).toBe(
+        'fallback',
+      );
+    });
+  });
+
+  it('should reject unknown modes', () => {
+    env.RDAP_BOOTSTRAP_MODE = 'ofline';
+
+    jest.isolateModules(() => {
+      expect(() => jest.requireActual('@/constant/env')).toThrow(
+        "Invalid RDAP_BOOTSTRAP_MODE 'ofline'",
+      );
+    });
+  });
+});
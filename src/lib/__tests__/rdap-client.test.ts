@@ -0,0 +1,120 @@
+import { queryRdap } from '@/lib/rdap-client';
+import {
+  RdapMalformedResponseError,
+  RdapNotFoundError,
+} from '@/lib/rdap-errors';
+
+const response = (
+  status: number,
+  body: unknown = {},
+  headers: Record<string, string> = {},
+) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: `Status ${status}`,
+    headers: new Headers(headers),
+    json: async () => body,
+  }) as Response;
+
+describe('RDAP client should retry and fail over transient errors', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should send RDAP headers and report the answering server', async () => {
+    fetchMock.mockResolvedValueOnce(response(200, { handle: 'NET-1' }));
+
+    const result = await queryRdap(['https://rdap.example'], 'ip/192.0.2.1');
+
+    expect(result).toMatchObject({
+      data: { handle: 'NET-1' },
+      rdapServer: 'https://rdap.example/',
+      url: 'https://rdap.example/ip/192.0.2.1',
+      attempts: 1,
+    });
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({
+      Accept: 'application/rdap+json, application/json',
+      'User-Agent': 'RDAPclient/1.0',
+    });
+  });
+
+  it('should honor Retry-After on 429 and retry 5xx', async () => {
+    fetchMock
+      .mockResolvedValueOnce(response(429, {}, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(response(503))
+      .mockResolvedValueOnce(response(200, { handle: 'AS1' }));
+
+    const result = await queryRdap(['https://rdap.example/'], 'autnum/1', {
+      retries: 2,
+    });
+
+    expect(result.attempts).toBe(3);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should fail over to the next server once retries run out', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(response(200, { handle: 'AS2' }));
+
+    const result = await queryRdap(
+      ['https://down.example/', 'http://up.example/'],
+      'autnum/2',
+      { retries: 0 },
+    );
+
+    expect(result.rdapServer).toBe('http://up.example/');
+  });
+
+  it('should time out slow servers', async () => {
+    fetchMock.mockImplementation(
+      (_url: string, { signal }: RequestInit) =>
+        new Promise((_resolve, reject) =>
+          signal?.addEventListener('abort', () => reject(new Error('aborted'))),
+        ),
+    );
+
+    await expect(
+      queryRdap(['https://slow.example/'], 'autnum/3', {
+        timeout: 10,
+        retries: 0,
+      }),
+    ).rejects.toThrow('timed out after 10ms');
+  });
+
+  it('should not retry authoritative errors such as 404', async () => {
+    fetchMock.mockResolvedValueOnce(
+      response(404, { errorCode: 404, title: 'Not Found' }),
+    );
+
+    const error = await queryRdap(
+      ['https://a.example/', 'https://b.example/'],
+      'domain/missing.example',
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RdapNotFoundError);
+    expect(error).toMatchObject({
+      message: 'Not Found',
+      status: 404,
+      rdapServer: 'https://a.example/',
+      upstream: { errorCode: 404, title: 'Not Found', status: 404 },
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject malformed response bodies without retrying', async () => {
+    fetchMock.mockResolvedValueOnce(response(200, ['not', 'an', 'object']));
+
+    await expect(
+      queryRdap(['https://a.example/'], 'domain/example.com'),
+    ).rejects.toBeInstanceOf(RdapMalformedResponseError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,72 @@
+import { RdapObject, validateRdapResponse } from '@/lib/rdap-conformance';
+
+import { rdapFixtures } from '@/data/rdap-fixtures';
+
+const fixture = (name: keyof typeof rdapFixtures, path: string) =>
+  (rdapFixtures[name].responses as Record<string, RdapObject>)[path];
+
+describe('Conformance validator should report RDAP profile issues', () => {
+  it('should accept a compliant gTLD domain response', () => {
+    const report = validateRdapResponse(
+      fixture('verisign', 'domain/example.com'),
+      'domain',
+    );
+
+    expect(report).toMatchObject({ valid: true, profile: 'icann_gtld' });
+    expect(report.errors).toEqual([]);
+  });
+
+  it('should report missing gTLD profile members', () => {
+    const report = validateRdapResponse(
+      fixture('verisign', 'domain/google.com'),
+      'domain',
+    );
+
+    expect(report.valid).toBe(false);
+    expect(report.errors).toEqual(
+      expect.arrayContaining([
+        { path: 'notices', message: "'status codes' notice is required" },
+      ]),
+    );
+  });
+
+  it('should not apply the gTLD profile to other responses', () => {
+    const report = validateRdapResponse(
+      fixture('arin', 'ip/8.8.8.8'),
+      'ip network',
+    );
+
+    expect(report).toMatchObject({ valid: true, profile: undefined });
+    expect(report.rdapConformance).toContain('cidr0');
+  });
+
+  it('should check class names, dates, jCards, links and extensions', () => {
+    const response = {
+      objectClassName: 'domain',
+      events: [{ eventAction: 'registration', eventDate: '14/08/1995' }],
+      links: [{ rel: 'self', href: '/domain/example.test' }],
+      entities: [
+        {
+          objectClassName: 'entity',
+          vcardArray: ['vcard', [['fn', {}, 'text']]],
+        },
+      ],
+      cidr0_cidrs: [],
+    };
+
+    const report = validateRdapResponse(response, 'autnum');
+
+    expect(report.errors.map(({ path }) => path)).toEqual([
+      'rdapConformance',
+      'objectClassName',
+      'events[0].eventDate',
+      'links[0].href',
+      'entities[0].vcardArray[1][0]',
+      'entities[0].vcardArray',
+    ]);
+    expect(report.warnings.map(({ path }) => path)).toEqual([
+      'cidr0_cidrs',
+      'links[0]',
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  parseRdapErrorObject,
+  RdapRateLimitError,
+  RdapUnsupportedAddressError,
+  toRdapErrorEnvelope,
+} from '@/lib/rdap-errors';
+
+describe('RDAP errors should map to a consistent envelope', () => {
+  it('should parse RFC 9083 error objects', () => {
+    expect(
+      parseRdapErrorObject({
+        errorCode: 400,
+        title: 'Bad Request',
+        description: ['Invalid query', 42],
+      }),
+    ).toEqual({
+      errorCode: 400,
+      title: 'Bad Request',
+      description: ['Invalid query'],
+    });
+    expect(parseRdapErrorObject({ description: 'Plain text' })).toEqual({
+      description: ['Plain text'],
+    });
+    expect(parseRdapErrorObject('<html>')).toBeUndefined();
+  });
+
+  it('should use the status and code of typed errors', () => {
+    expect(
+      toRdapErrorEnvelope(
+        new RdapUnsupportedAddressError(
+          'Private IP addresses are not supported',
+        ),
+      ),
+    ).toMatchObject({
+      error: 'Private IP addresses are not supported',
+      code: 'UNSUPPORTED_ADDRESS',
+      status: 400,
+    });
+  });
+
+  it('should report Retry-After in seconds on rate limiting', () => {
+    expect(
+      toRdapErrorEnvelope(
+        new RdapRateLimitError('Slow down', 'https://rdap.example/', 1500, {
+          status: 429,
+        }),
+      ),
+    ).toMatchObject({
+      code: 'UPSTREAM_RATE_LIMITED',
+      status: 429,
+      rdapServer: 'https://rdap.example/',
+      retryAfter: 2,
+    });
+  });
+
+  it('should report unknown errors as internal errors without details', () => {
+    const error = new Error(
+      "ENOENT: no such file or directory, open '/etc/rdap/overrides.json'",
+    );
+
+    expect(toRdapErrorEnvelope(error)).toEqual({
+      error: 'An internal error occurred',
+      code: 'INTERNAL_ERROR',
+      status: 500,
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { lookupASN } from '@/lib/asn-rdap';
+import { lookupIP } from '@/lib/ip-rdap';
+import { lookupDomain } from '@/lib/rdap';
+import { clearBootstrapCache } from '@/lib/rdap-bootstrap';
+import { RdapUnsupportedAddressError } from '@/lib/rdap-errors';
+import {
+  clearOverridesCache,
+  findAsnOverride,
+  findDomainOverride,
+  findIPOverride,
+} from '@/lib/rdap-overrides';
+import { createStubRdapServer } from '@/lib/rdap-stub';
+
+const CORP = 'https://rdap.corp.example/';
+
+const overrides = {
+  domains: [{ tlds: ['corp'], urls: [CORP] }],
+  ip: [{ prefixes: ['10.0.0.0/8', 'fd00::/8'], urls: [CORP] }],
+  asn: [{ ranges: ['64512-65534'], urls: [CORP] }],
+};
+
+describe('Server overrides should take precedence over the bootstrap', () => {
+  const { transport, requests } = createStubRdapServer([
+    {
+      rdapServer: CORP,
+      responses: {
+        'domain/example.corp': {
+          objectClassName: 'domain',
+          ldhName: 'example.corp',
+        },
+        'ip/10.1.2.3': {
+          objectClassName: 'ip network',
+          handle: 'CORP-10',
+          startAddress: '10.0.0.0',
+          endAddress: '10.255.255.255',
+        },
+        'autnum/64512': {
+          objectClassName: 'autnum',
+          handle: 'AS64512',
+          startAutnum: 64512,
+          endAutnum: 65534,
+          name: 'CORP-PRIVATE',
+        },
+      },
+    },
+  ]);
+
+  beforeEach(() => {
+    process.env.RDAP_OVERRIDES = JSON.stringify(overrides);
+    clearOverridesCache();
+    clearBootstrapCache();
+    requests.length = 0;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    delete process.env.RDAP_OVERRIDES;
+    clearOverridesCache();
+    jest.restoreAllMocks();
+  });
+
+  it('should send domains under an overridden TLD to its server', async () => {
+    const result = await lookupDomain('example.corp', { transport });
+
+    expect(result.rdapServer).toBe(CORP);
+    expect(result.rdapServerOverride).toBe(true);
+    expect(requests).toEqual([`${CORP}domain/example.corp`]);
+  });
+
+  it('should serve private addresses covered by an override', async () => {
+    const result = await lookupIP('10.1.2.3', { transport });
+
+    expect(result.network.handle).toBe('CORP-10');
+    expect(result.rdapServerOverride).toBe(true);
+    expect(requests).toEqual([`${CORP}ip/10.1.2.3`]);
+  });
+
+  it('should still refuse private addresses without an override', async () => {
+    await expect(lookupIP('192.168.1.1', { transport })).rejects.toThrow(
+      RdapUnsupportedAddressError,
+    );
+    expect(requests).toEqual([]);
+  });
+
+  it('should send ASNs in an overridden range to its server', async () => {
+    const result = await lookupASN(64512, { transport });
+
+    expect(result.name).toBe('CORP-PRIVATE');
+    expect(result.rdapServerOverride).toBe(true);
+  });
+
+  it('should report lookups through the bootstrap as not overridden', async () => {
+    const stub = createStubRdapServer();
+    const result = await lookupIP('8.8.8.8', { transport: stub.transport });
+
+    expect(result.rdapServerOverride).toBe(false);
+  });
+
+  it('should try https override URLs before http ones', () => {
+    const urls = ['http://rdap.corp.example/', CORP];
+    process.env.RDAP_OVERRIDES = JSON.stringify({
+      domains: [{ tlds: ['corp'], urls }],
+      ip: [{ prefixes: ['10.0.0.0/8'], urls }],
+      asn: [{ ranges: ['64512-65534'], urls }],
+    });
+
+    const sorted = [CORP, 'http://rdap.corp.example/'];
+    expect(findDomainOverride('corp')).toEqual(sorted);
+    expect(findIPOverride('10.1.2.3', 'IPv4')).toEqual(sorted);
+    expect(findAsnOverride(64512)?.urls).toEqual(sorted);
+  });
+
+  it.each(['10.0.0.0/33', 'not-a-prefix', '10.0.0.0'])(
+    'should reject the override prefix %s',
+    (prefix) => {
+      process.env.RDAP_OVERRIDES = JSON.stringify({
+        ip: [{ prefixes: [prefix], urls: [CORP] }],
+      });
+
+      expect(() => findIPOverride('10.1.2.3', 'IPv4')).toThrow(
+        'Invalid RDAP overrides',
+      );
+    },
+  );
+});
@@ -0,0 +1,97 @@
+import { clearBootstrapCache } from '@/lib/rdap-bootstrap';
+import { RdapValidationError } from '@/lib/rdap-errors';
+import { searchRdap } from '@/lib/rdap-search';
+import { createStubRdapServer } from '@/lib/rdap-stub';
+
+describe('RDAP searches should follow paging and normalize results', () => {
+  const { transport, requests } = createStubRdapServer();
+
+  beforeEach(() => {
+    clearBootstrapCache();
+    requests.length = 0;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should search domains at the registry of the pattern TLD', async () => {
+    const result = await searchRdap('domains', 'name', 'exam*.com', {
+      transport,
+    });
+
+    expect(result.rdapServer).toBe('https://rdap.verisign.com/com/v1/');
+    expect(result.results.map((domain) => domain.domainName)).toEqual([
+      'EXAMPLE.COM',
+      'EXAMPLES.COM',
+      'EXAMPLEDOMAIN.COM',
+    ]);
+    expect(result.results[0].nameservers).toEqual(['A.IANA-SERVERS.NET']);
+    expect(result).toMatchObject({ totalCount: 3, pages: 2, truncated: false });
+    expect(requests).toContain(
+      'https://rdap.verisign.com/com/v1/domains?name=exam*.com&cursor=page2',
+    );
+  });
+
+  it('should report a truncation notice when it stops paging', async () => {
+    const result = await searchRdap('domains', 'name', 'exam*.com', {
+      transport,
+      maxPages: 1,
+    });
+
+    expect(result.results).toHaveLength(2);
+    expect(result.truncated).toBe(true);
+    expect(result.notices).toEqual([
+      expect.objectContaining({
+        type: 'result set truncated due to excessive load',
+      }),
+    ]);
+  });
+
+  it('should search nameservers by IP in the given TLD', async () => {
+    const result = await searchRdap('nameservers', 'ip', '199.43.135.53', {
+      transport,
+      tld: 'com',
+    });
+
+    expect(result.results).toEqual([
+      expect.objectContaining({
+        ldhName: 'a.iana-servers.net',
+        ipAddresses: { v4: ['199.43.135.53'], v6: ['2001:500:8f::53'] },
+      }),
+    ]);
+  });
+
+  it('should pass on truncation notices from the server', async () => {
+    const result = await searchRdap('entities', 'fn', 'Google*', {
+      transport,
+      tag: 'arin',
+    });
+
+    expect(result.rdapServer).toBe('https://rdap.arin.net/registry/');
+    expect(result.results.map((entity) => entity.name)).toEqual([
+      'Google LLC',
+      'Google Fiber Inc.',
+    ]);
+    expect(result.results[0].tag).toBe('ARIN');
+    expect(result.truncated).toBe(true);
+    expect(result.notices[0].type).toBe(
+      'result set truncated due to authorization',
+    );
+  });
+
+  it.each([
+    ['domains', 'ip', '192.0.2.1', {}],
+    ['domains', 'name', 'ex*am*.com', {}],
+    ['domains', 'name', 'example.*', {}],
+    ['nameservers', 'ip', 'not-an-ip', { tld: 'com' }],
+    ['nameservers', 'ip', '192.0.2.1', {}],
+  ] as const)(
+    'should reject %s?%s=%s',
+    async (type, parameter, pattern, options) => {
+      await expect(
+        searchRdap(type, parameter, pattern, { ...options, transport }),
+      ).rejects.toBeInstanceOf(RdapValidationError);
+      expect(requests).toHaveLength(0);
+    },
+  );
+});
@@ -0,0 +1,140 @@
+import { lookupASN } from '@/lib/asn-rdap';
+import { lookupEntity } from '@/lib/entity-rdap';
+import { lookupIP } from '@/lib/ip-rdap';
+import { lookupDomain, lookupNameserver } from '@/lib/rdap';
+import { clearBootstrapCache } from '@/lib/rdap-bootstrap';
+import { RdapNotFoundError, RdapValidationError } from '@/lib/rdap-errors';
+import { createStubRdapServer } from '@/lib/rdap-stub';
+
+describe('Lookups should run offline against the stub RDAP server', () => {
+  const { transport, requests } = createStubRdapServer();
+
+  beforeEach(() => {
+    clearBootstrapCache();
+    requests.length = 0;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it.each([
+    ['8.8.8.8', 'https://rdap.arin.net/registry/', 'Google LLC'],
+    ['193.0.6.139', 'https://rdap.db.ripe.net/', 'Reseaux IP Europeens'],
+    ['1.1.1.1', 'https://rdap.apnic.net/', 'APNIC Research'],
+    ['200.160.2.3', 'https://rdap.lacnic.net/rdap/', 'NIC.BR'],
+    ['196.216.2.1', 'https://rdap.afrinic.net/rdap/', 'AfriNIC'],
+  ])(
+    'should resolve %s through the bootstrap to its RIR',
+    async (ip, rdapServer, organization) => {
+      const result = await lookupIP(ip, { transport });
+
+      expect(result.rdapServer).toBe(rdapServer);
+      expect(result.network.organization).toContain(organization);
+      expect(requests[0]).toBe('https://data.iana.org/rdap/ipv4.json');
+    },
+  );
+
+  it.each([
+    [15169, 'ARIN', 'GOOGLE'],
+    [3333, 'RIPE NCC', 'RIPE-NCC-AS'],
+    [9498, 'APNIC', 'BBIL-AP'],
+    [28000, 'LACNIC', 'LACNIC - Latin American and Caribbean IP address'],
+    [37100, 'AFRINIC', 'SEACOM-AS'],
+  ])('should look up AS%s at %s', async (asn, registry, name) => {
+    const result = await lookupASN(asn, { transport });
+
+    expect(result.name).toBe(name);
+    expect(result.delegation?.registry).toBe(registry);
+  });
+
+  it('should look up domains at Verisign and DENIC', async () => {
+    const example = await lookupDomain('example.com', { transport });
+    const denic = await lookupDomain('denic.de', { transport });
+
+    expect(example).toMatchObject({
+      domainName: 'EXAMPLE.COM',
+      dnssec: 'Signed',
+      rdapServer: 'https://rdap.verisign.com/com/v1/',
+    });
+    expect(denic.nameservers).toContain('ns1.denic.de');
+    expect(denic.nameserverDetails?.[0]).toMatchObject({
+      ldhName: 'ns1.denic.de',
+      handle: 'ns1.denic.de',
+      ipAddresses: { v4: ['77.67.63.106'], v6: ['2001:668:1f:11::106'] },
+      status: ['active'],
+    });
+    expect(denic.nameserverDetails?.[1].ipAddresses).toEqual({
+      v4: [],
+      v6: [],
+    });
+  });
+
+  it('should look up nameservers with their glue addresses', async () => {
+    const result = await lookupNameserver('NS1.Google.com.', {
+      transport,
+      conformance: true,
+    });
+
+    expect(result).toMatchObject({
+      ldhName: 'ns1.google.com',
+      handle: '1617524_NAMESERVER_COM-VRSN',
+      ipAddresses: { v4: ['216.239.32.10'], v6: ['2001:4860:4802:32::a'] },
+      rdapServer: 'https://rdap.verisign.com/com/v1/',
+      rdapServerOverride: false,
+    });
+    expect(result.conformance?.valid).toBe(true);
+    expect(requests).toContain(
+      'https://rdap.verisign.com/com/v1/nameserver/ns1.google.com',
+    );
+  });
+
+  it('should look up Unicode nameserver host names by their A-labels', async () => {
+    await expect(
+      lookupNameserver('NS1.Bücher.de', { transport }),
+    ).rejects.toBeInstanceOf(RdapNotFoundError);
+
+    expect(requests).toContain(
+      'https://rdap.denic.de/nameserver/ns1.xn--bcher-kva.de',
+    );
+  });
+
+  it('should reject invalid nameserver host names', async () => {
+    await expect(
+      lookupNameserver('not a host', { transport }),
+    ).rejects.toBeInstanceOf(RdapValidationError);
+  });
+
+  it('should keep the registry answer when the registrar has no fixture', async () => {
+    const result = await lookupDomain('google.com', {
+      transport,
+      followReferral: true,
+    });
+
+    expect(result.registrar).toBe('MarkMonitor Inc.');
+    expect(result.referralError).toContain('No fixture');
+  });
+
+  it('should look up entities by object tag', async () => {
+    const result = await lookupEntity('GOGL-ARIN', { transport });
+
+    expect(result).toMatchObject({ name: 'Google LLC', tag: 'ARIN' });
+    expect(result.autnums[0].start).toBe(15169);
+  });
+
+  it('should attach a conformance report to entity lookups on request', async () => {
+    const plain = await lookupEntity('GOGL-ARIN', { transport });
+    const checked = await lookupEntity('GOGL-ARIN', {
+      transport,
+      conformance: true,
+    });
+
+    expect(plain.conformance).toBeUndefined();
+    expect(checked.conformance).toMatchObject({ errors: [] });
+  });
+
+  it('should report unknown objects as not found', async () => {
+    await expect(
+      lookupDomain('missing.com', { transport }),
+    ).rejects.toBeInstanceOf(RdapNotFoundError);
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  findRegistrarReferral,
+  mergeRegistrarData,
+  normalizeRdapResponse,
+  RdapEntity,
+  RdapResponse,
+} from '@/lib/rdap';
+
+const registryResponse: RdapResponse = {
+  ldhName: 'EXAMPLE.COM',
+  status: ['client transfer prohibited'],
+  nameservers: [{ ldhName: 'A.IANA-SERVERS.NET' }],
+  events: [
+    { eventAction: 'registration', eventDate: '1995-08-14T04:00:00Z' },
+    { eventAction: 'expiration', eventDate: '2026-08-13T04:00:00Z' },
+  ],
+  links: [
+    {
+      rel: 'self',
+      href: 'https://rdap.verisign.com/com/v1/domain/EXAMPLE.COM',
+      type: 'application/rdap+json',
+    },
+    {
+      rel: 'related',
+      href: 'https://rdap.registrar.example/domain/EXAMPLE.COM',
+      type: 'application/rdap+json',
+    },
+  ],
+};
+
+const registrarResponse: RdapResponse = {
+  ldhName: 'example.com',
+  nameservers: [{ ldhName: 'a.iana-servers.net' }],
+  events: [{ eventAction: 'expiration', eventDate: '2027-08-13T04:00:00Z' }],
+  entities: [
+    {
+      roles: ['registrant'],
+      vcardArray: [
+        'vcard',
+        [['fn', {}, 'text', 'Example Registrant']],
+      ] as RdapEntity['vcardArray'],
+    },
+  ],
+};
+
+describe('Registry to registrar referrals should merge both responses', () => {
+  it('should find the registrar referral link', () => {
+    expect(
+      findRegistrarReferral(
+        registryResponse,
+        'https://rdap.verisign.com/com/v1/',
+      ),
+    ).toBe('https://rdap.registrar.example/domain/EXAMPLE.COM');
+    expect(
+      findRegistrarReferral(
+        { links: [registryResponse.links?.[0] ?? {}] },
+        'https://rdap.verisign.com/com/v1/',
+      ),
+    ).toBeNull();
+  });
+
+  it('should record field sources and flag disagreements', () => {
+    const merged = mergeRegistrarData(
+      normalizeRdapResponse(registryResponse, 'https://rdap.verisign.com/'),
+      normalizeRdapResponse(
+        registrarResponse,
+        'https://rdap.registrar.example/',
+      ),
+      'https://rdap.registrar.example/',
+    );
+
+    expect(merged.expiresOn).toBe('Thu, 13 Aug 2026 04:00:00 GMT');
+    expect(merged.entities?.[0].name).toBe('Example Registrant');
+    expect(merged.fieldSources).toMatchObject({
+      expiresOn: 'registry',
+      registeredOn: 'registry',
+      entities: 'registrar',
+    });
+    expect(merged.discrepancies).toEqual([
+      { field: 'expiresOn', registry: '2026-08-13', registrar: '2027-08-13' },
+    ]);
+  });
+
+  it('should keep a signed registry answer when the registrar omits secureDNS', () => {
+    const registrar = normalizeRdapResponse(
+      registrarResponse,
+      'https://rdap.registrar.example/',
+    );
+    const merged = mergeRegistrarData(
+      normalizeRdapResponse(
+        { ...registryResponse, secureDNS: { delegationSigned: true } },
+        'https://rdap.verisign.com/',
+      ),
+      registrar,
+      'https://rdap.registrar.example/',
+    );
+
+    expect(registrar.dnssec).toBe('N/A');
+    expect(merged.dnssec).toBe('Signed');
+    expect(merged.fieldSources?.dnssec).toBe('registry');
+    expect(merged.discrepancies?.map(({ field }) => field)).not.toContain(
+      'dnssec',
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { lookupIP } from '@/lib/ip-rdap';
+import { clearBootstrapCache } from '@/lib/rdap-bootstrap';
+import { RdapValidationError } from '@/lib/rdap-errors';
+import { createStubRdapServer } from '@/lib/rdap-stub';
+import { getReverseZones, lookupReverseDns } from '@/lib/reverse-dns';
+
+describe('Reverse zones should follow octet and nibble boundaries', () => {
+  it('should derive IPv4 zones from the /24 outwards', () => {
+    expect(getReverseZones('192.0.2.1', 'IPv4')).toEqual([
+      '2.0.192.in-addr.arpa',
+      '0.192.in-addr.arpa',
+      '192.in-addr.arpa',
+    ]);
+  });
+
+  it('should not go more specific than the prefix allows', () => {
+    expect(getReverseZones('10.20.0.0', 'IPv4', 16)).toEqual([
+      '20.10.in-addr.arpa',
+      '10.in-addr.arpa',
+    ]);
+    // A /21 spans several /24 zones, so its delegation is the enclosing /16
+    expect(getReverseZones('10.20.8.0', 'IPv4', 21)).toEqual([
+      '20.10.in-addr.arpa',
+      '10.in-addr.arpa',
+    ]);
+    expect(getReverseZones('10.0.0.0', 'IPv4', 4)).toEqual([]);
+  });
+
+  it('should derive IPv6 zones on nibble boundaries', () => {
+    expect(getReverseZones('2001:db8:abcd::1', 'IPv6')).toEqual([
+      'd.c.b.a.8.b.d.0.1.0.0.2.ip6.arpa',
+      '8.b.d.0.1.0.0.2.ip6.arpa',
+    ]);
+    expect(getReverseZones('2001:db8::', 'IPv6', 29)).toEqual([
+      'b.d.0.1.0.0.2.ip6.arpa',
+    ]);
+  });
+
+  it('should reject prefixes shorter than any reverse zone', async () => {
+    const lookup = lookupReverseDns('16.0.0.0', 'IPv4', { prefixLength: 4 });
+
+    await expect(lookup).rejects.toBeInstanceOf(RdapValidationError);
+    await expect(lookup).rejects.toThrow(
+      'A /4 prefix is too short for a reverse DNS zone',
+    );
+  });
+});
+
+describe('IP lookups should return the reverse delegation', () => {
+  const { transport, requests } = createStubRdapServer();
+
+  beforeEach(() => {
+    clearBootstrapCache();
+    requests.length = 0;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should find the zone at the RIR serving the address', async () => {
+    const result = await lookupIP('8.8.8.8', { transport, reverse: true });
+
+    expect(result.reverseDns).toMatchObject({
+      zone: '8.8.8.in-addr.arpa',
+      dnssec: 'Unsigned',
+      rdapServer: 'https://rdap.arin.net/registry/',
+    });
+    expect(result.reverseDns?.nameservers).toContain('NS1.GOOGLE.COM');
+    expect(result.reverseDns?.entities[0].name).toBe('Google LLC');
+    expect(result.network.organization).toContain('Google LLC');
+  });
+
+  it('should report signed delegations', async () => {
+    const result = await lookupIP('193.0.6.139', { transport, reverse: true });
+
+    expect(result.reverseDns).toMatchObject({
+      zone: '6.0.193.in-addr.arpa',
+      dnssec: 'Signed',
+    });
+  });
+
+  it('should try enclosing zones and keep the network data on failure', async () => {
+    const result = await lookupIP('196.216.2.1', { transport, reverse: true });
+
+    expect(result.reverseDns).toBeUndefined();
+    expect(result.reverseDnsError).toContain('No fixture');
+    expect(requests).toEqual(
+      expect.arrayContaining([
+        'https://rdap.afrinic.net/rdap/domain/2.216.196.in-addr.arpa',
+        'https://rdap.afrinic.net/rdap/domain/216.196.in-addr.arpa',
+        'https://rdap.afrinic.net/rdap/domain/196.in-addr.arpa',
+      ]),
+    );
+    expect(result.network.organization).toContain('AfriNIC');
+  });
+});
@@ -0,0 +1,59 @@
+// JSON responses shared by the lookup routes
+import { NextResponse } from 'next/server';
+
+import { CachedLookup } from './lookup-cache';
+import { RdapError, toRdapErrorEnvelope } from './rdap-errors';
+
+/**
+ * Respond with a lookup result and HTTP caching headers derived from its
+ * cache entry, answering 304 when the client already has this version
+ */
+export function lookupResponse<T>(
+  request: Request,
+  result: CachedLookup<T>,
+): NextResponse {
+  const now = Date.now();
+  const headers = {
+    'Cache-Control': `public, max-age=${Math.max(
+      0,
+      Math.floor((result.expiry - now) / 1000),
+    )}`,
+    ETag: result.etag,
+    Age: String(Math.max(0, Math.floor((now - result.storedAt) / 1000))),
+    'X-Cache': result.hit ? 'HIT' : 'MISS',
+  };
+
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (ifNoneMatch?.split(/\s*,\s*/).includes(result.etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return NextResponse.json(result.value, { headers });
+}
+
+/**
+ * Respond with the JSON error envelope and its status code, adding
+ * Retry-After when the upstream server rate limited us. Unexpected errors
+ * are logged here, as the client only sees a generic message.
+ */
+export function rdapErrorResponse(
+  error: unknown,
+  extra: Record<string, unknown> = {},
+): NextResponse {
+  if (!(error instanceof RdapError)) {
+    // eslint-disable-next-line no-console
+    console.error('Internal error:', error);
+  }
+
+  const envelope = toRdapErrorEnvelope(error);
+
+  return NextResponse.json(
+    { ...envelope, ...extra },
+    {
+      status: envelope.status,
+      headers: envelope.retryAfter
+        ? { 'Retry-After': String(envelope.retryAfter) }
+        : undefined,
+    },
+  );
+}
@@ -0,0 +1,87 @@
+import { BootstrapData, getRegistryName } from './rdap-bootstrap';
+
+// Sorted interval index of ASN bootstrap ranges, searched with binary search
+
+export interface AsnRange {
+  range: string;
+  start: number;
+  end: number;
+  urls: string[];
+  registry?: string;
+}
+
+export interface AsnRangeIndex {
+  size: number;
+  lookup: (asn: number) => AsnRange | null;
+}
+
+/**
+ * Parse a bootstrap range such as "1-1876" or a single number such as "2043"
+ */
+function parseAsnRange(range: string): { start: number; end: number } | null {
+  const [startPart, endPart = startPart] = range.split('-');
+  const start = Number(startPart);
+  const end = Number(endPart);
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start > end) {
+    return null;
+  }
+  return { start, end };
+}
+
+/**
+ * Compile ASN bootstrap services into a sorted interval index
+ */
+export function buildAsnRangeIndex(
+  services: BootstrapData['services'],
+): AsnRangeIndex {
+  const intervals: AsnRange[] = [];
+
+  for (const [ranges, urls] of services) {
+    const registry = getRegistryName(urls);
+    for (const range of ranges) {
+      const parsed = parseAsnRange(range);
+      if (parsed) intervals.push({ range, ...parsed, urls, registry });
+    }
+  }
+
+  intervals.sort((a, b) => a.start - b.start);
+
+  return {
+    size: intervals.length,
+    lookup: (asn: number): AsnRange | null => {
+      // Find the last interval starting at or before the ASN
+      let low = 0;
+      let high = intervals.length - 1;
+      let candidate: AsnRange | null = null;
+
+      while (low <= high) {
+        const mid = (low + high) >>> 1;
+        if (intervals[mid].start <= asn) {
+          candidate = intervals[mid];
+          low = mid + 1;
+        } else {
+          high = mid - 1;
+        }
+      }
+
+      return candidate && asn <= candidate.end ? candidate : null;
+    },
+  };
+}
+
+const indexCache = new WeakMap<object, AsnRangeIndex>();
+
+/**
+ * Get the interval index for a set of ASN bootstrap services, compiling it
+ * once per bootstrap refresh
+ */
+export function getAsnRangeIndex(
+  services: BootstrapData['services'],
+): AsnRangeIndex {
+  let index = indexCache.get(services);
+  if (!index) {
+    index = buildAsnRangeIndex(services);
+    indexCache.set(services, index);
+  }
+  return index;
+}
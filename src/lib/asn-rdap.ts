@@ -1,4 +1,15 @@
-import { fetchBootstrapData } from './rdap-bootstrap';
+import { AsnRange, getAsnRangeIndex } from './asn-range-index';
+import { coalesceLookup } from './inflight';
+import { fetchBootstrapData, sortRdapUrls } from './rdap-bootstrap';
+import { queryRdap } from './rdap-client';
+import {
+  ConformanceReport,
+  RdapObject,
+  validateRdapResponse,
+} from './rdap-conformance';
+import { RdapNoServerError, RdapValidationError } from './rdap-errors';
+import { findAsnOverride } from './rdap-overrides';
+import { RdapTransport } from './rdap-transport';
 
 // ASN RDAP Response Interfaces
 interface RdapAsnEntity {
@@ -10,7 +21,7 @@ interface RdapAsnEntity {
   ];
 }
 
-interface RdapAsnResponse {
+interface RdapAsnResponse extends RdapObject {
   objectClassName: string;
   handle?: string;
   startAutnum?: number;
@@ -52,7 +63,16 @@ export interface NormalizedAsnData {
     title?: string;
     description?: string[];
   }>;
+  delegation?: AsnDelegation;
+  conformance?: ConformanceReport;
   rdapServer: string;
+  rdapServerOverride?: boolean;
+}
+
+// IANA delegation of the ASN block, known without querying the RDAP server
+export interface AsnDelegation {
+  range: string;
+  registry?: string;
 }
 
 /**
@@ -103,68 +123,32 @@ export function validateASN(asn: string | number): {
 }
 
 /**
- * Find RDAP server for ASN
+ * Find the ASN block (RDAP base URLs and registry) for an ASN, checking
+ * configured overrides before the IANA bootstrap
  */
-async function findRdapServerForASN(asn: number): Promise<string | null> {
-  const bootstrapData = await fetchBootstrapData('asn');
-
-  for (const [ranges, urls] of bootstrapData.services) {
-    for (const range of ranges) {
-      // Handle ranges like "1-1876" or single numbers like "2043"
-      if (range.includes('-')) {
-        const [start, end] = range.split('-').map(Number);
-        if (asn >= start && asn <= end) {
-          return urls[0];
-        }
-      } else {
-        const singleAsn = Number(range);
-        if (asn === singleAsn) {
-          return urls[0];
-        }
-      }
-    }
-  }
+async function findRdapServerForASN(
+  asn: number,
+  transport?: RdapTransport,
+): Promise<(AsnRange & { override: boolean }) | null> {
+  const override = findAsnOverride(asn);
+  if (override) return { ...override, override: true };
 
-  return null;
+  const bootstrapData = await fetchBootstrapData('asn', transport);
+  const block = getAsnRangeIndex(bootstrapData.services).lookup(asn);
+  return block ? { ...block, override: false } : null;
 }
 
 /**
- * Query RDAP server for ASN information
+ * Find which registry the IANA bootstrap delegates an ASN block to
  */
-async function queryRdapServer(
-  asn: number,
-  rdapServerUrl: string,
-): Promise<RdapAsnResponse> {
-  const baseUrl = rdapServerUrl.endsWith('/')
-    ? rdapServerUrl
-    : `${rdapServerUrl}/`;
-  const queryUrl = `${baseUrl}autnum/${asn}`;
-
-  try {
-    const response = await fetch(queryUrl, {
-      headers: {
-        Accept: 'application/rdap+json, application/json',
-        'User-Agent': 'RDAPclient/1.0',
-      },
-    });
-
-    if (!response.ok) {
-      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-      try {
-        const errorData = await response.json();
-        errorMessage = errorData.description || errorData.title || errorMessage;
-      } catch (e) {
-        // Use default error message
-      }
-      throw new Error(errorMessage);
-    }
+export async function findAsnDelegation(
+  asn: string | number,
+): Promise<AsnDelegation | null> {
+  const validation = validateASN(asn);
+  if (!validation.isValid || !validation.normalized) return null;
 
-    return await response.json();
-  } catch (error) {
-    // eslint-disable-next-line no-console
-    console.error(`RDAP query failed for AS${asn}:`, error);
-    throw error;
-  }
+  const block = await findRdapServerForASN(validation.normalized);
+  return block ? { range: block.range, registry: block.registry } : null;
 }
 
 /**
@@ -199,29 +183,57 @@ function extractDate(
   return event ? new Date(event.eventDate).toUTCString() : undefined;
 }
 
+export interface AsnLookupOptions {
+  /** Attach a conformance report for the upstream response */
+  conformance?: boolean;
+  /** Sends the HTTP requests; defaults to the global fetch */
+  transport?: RdapTransport;
+}
+
 /**
  * Main function to lookup ASN information (RDAP only)
  */
 export async function lookupASN(
   asn: string | number,
+  options: AsnLookupOptions = {},
 ): Promise<NormalizedAsnData> {
   // Validate ASN
   const validation = validateASN(asn);
   if (!validation.isValid || !validation.normalized) {
-    throw new Error(validation.error || 'Invalid ASN');
+    throw new RdapValidationError(validation.error || 'Invalid ASN');
   }
 
   const normalizedASN = validation.normalized;
 
+  // Concurrent callers for the same ASN share one upstream query
+  return coalesceLookup(
+    `asn:${normalizedASN}${options.conformance ? '?conformance' : ''}`,
+    () => fetchAsnLookup(normalizedASN, options),
+  );
+}
+
+/**
+ * Query RDAP for a validated ASN and normalize the response
+ */
+async function fetchAsnLookup(
+  normalizedASN: number,
+  { conformance = false, transport }: AsnLookupOptions,
+): Promise<NormalizedAsnData> {
   try {
-    // Find appropriate RDAP server
-    const rdapServer = await findRdapServerForASN(normalizedASN);
-    if (!rdapServer) {
-      throw new Error(`No RDAP server found for AS${normalizedASN}`);
+    // Find appropriate RDAP servers
+    const block = await findRdapServerForASN(normalizedASN, transport);
+    if (!block) {
+      throw new RdapNoServerError(
+        `No RDAP server found for AS${normalizedASN}`,
+      );
     }
 
-    // Query RDAP server
-    const rdapData = await queryRdapServer(normalizedASN, rdapServer);
+    // Query RDAP servers in order until one answers
+    const { data: rdapData, rdapServer } = await queryRdap<RdapAsnResponse>(
+      block.override ? block.urls : sortRdapUrls(block.urls),
+      `autnum/${normalizedASN}`,
+      { transport },
+    );
 
     // Extract essential information
     const organization = rdapData.entities
@@ -249,15 +261,18 @@ export async function lookupASN(
         extractDate(rdapData.events, 'last changed') ||
         extractDate(rdapData.events, 'last update'),
       remarks: rdapData.remarks,
+      delegation: { range: block.range, registry: block.registry },
+      conformance: conformance
+        ? validateRdapResponse(rdapData, 'autnum')
+        : undefined,
       rdapServer,
+      rdapServerOverride: block.override,
     };
 
     return result;
   } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : 'Unknown error occurred';
     // eslint-disable-next-line no-console
     console.error(`ASN lookup failed for AS${normalizedASN}:`, error);
-    throw new Error(errorMessage);
+    throw error;
   }
 }
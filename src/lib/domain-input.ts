@@ -0,0 +1,85 @@
+// Turn whatever a caller typed (URL, email address, host name) into the
+// registrable domain that a registry can answer for
+import { parse } from 'tldts';
+
+import { normalizeDomainName, toUnicodeName } from './idn';
+import { validateIP } from './ip-utils';
+import { RdapValidationError } from './rdap-errors';
+
+export interface DomainQuery {
+  /** Registrable domain in A-label form, as sent to the registry */
+  domain: string;
+  unicodeName: string;
+  /** Public suffix the domain is registered under, e.g. `co.uk` */
+  publicSuffix: string;
+  tld: string;
+}
+
+/**
+ * Extract the host from a URL, an email address or a bare host name
+ */
+function extractHost(input: string): string {
+  let host = input.trim();
+
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(host)) {
+    try {
+      host = new URL(host).hostname;
+    } catch (e) {
+      throw new RdapValidationError(`'${input}' is not a valid URL.`);
+    }
+  }
+
+  // Mailbox part of an email address, then any path, query or port
+  host = host.slice(host.lastIndexOf('@') + 1);
+  host = host.split(/[/?#]/)[0];
+  // A single colon is a port; more are a bare IPv6 address
+  return host.split(':').length === 2 ? host.split(':')[0] : host;
+}
+
+/**
+ * Find the registrable domain for a lookup using the public suffix list.
+ * Subdomains are dropped (`www.example.co.uk` -> `example.co.uk`); names
+ * under private suffixes such as `github.io` are rejected because no
+ * registry holds them.
+ */
+export function parseDomainInput(input: string): DomainQuery {
+  const host = extractHost(input);
+
+  if (validateIP(host.replace(/^\[|\]$/g, '')).isValid) {
+    throw new RdapValidationError(
+      `'${host}' is an IP address; use the IP lookup instead.`,
+    );
+  }
+
+  const validation = normalizeDomainName(host);
+  if (!validation.isValid || !validation.ldhName) {
+    throw new RdapValidationError(
+      validation.error || `'${input}' is not a valid domain format.`,
+    );
+  }
+  const ldhName = validation.ldhName;
+
+  const withPrivate = parse(ldhName, { allowPrivateDomains: true });
+  const icann = parse(ldhName);
+
+  if (withPrivate.isPrivate && withPrivate.domain) {
+    throw new RdapValidationError(
+      `'${host}' is under the private suffix '${withPrivate.publicSuffix}', ` +
+        `which is not run by a domain registry. Look up '${icann.domain}' ` +
+        'for the registration of the suffix itself.',
+    );
+  }
+
+  if (!icann.domain || !icann.publicSuffix) {
+    throw new RdapValidationError(
+      `'${host}' is a public suffix, not a registrable domain.`,
+    );
+  }
+
+  return {
+    domain: icann.domain,
+    unicodeName: toUnicodeName(icann.domain) ?? icann.domain,
+    publicSuffix: icann.publicSuffix,
+    tld: icann.domain.slice(icann.domain.lastIndexOf('.') + 1),
+  };
+}
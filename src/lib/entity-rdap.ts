@@ -0,0 +1,309 @@
+import { fetchBootstrapData, sortRdapUrls } from './rdap-bootstrap';
+import { queryRdap } from './rdap-client';
+import {
+  ConformanceReport,
+  RdapObject,
+  validateRdapResponse,
+} from './rdap-conformance';
+import { RdapNoServerError, RdapValidationError } from './rdap-errors';
+import { RdapTransport } from './rdap-transport';
+
+// Entity RDAP Response Interfaces
+export interface RdapEntityResponse extends RdapObject {
+  objectClassName: string;
+  handle?: string;
+  roles?: string[];
+  vcardArray?: [
+    string,
+    Array<[string, Record<string, unknown>, string, unknown]>,
+  ];
+  status?: string[];
+  events?: { eventAction: string; eventDate: string }[];
+  entities?: RdapEntityResponse[];
+  networks?: Array<{
+    handle?: string;
+    name?: string;
+    startAddress?: string;
+    endAddress?: string;
+    ipVersion?: string;
+    type?: string;
+    country?: string;
+  }>;
+  autnums?: Array<{
+    handle?: string;
+    name?: string;
+    startAutnum?: number;
+    endAutnum?: number;
+    type?: string;
+    country?: string;
+  }>;
+  remarks?: Array<{
+    title?: string;
+    description?: string[];
+  }>;
+  links?: Array<{
+    value?: string;
+    rel?: string;
+    href?: string;
+    type?: string;
+  }>;
+}
+
+export interface EntityContact {
+  handle?: string;
+  roles?: string[];
+  kind?: string;
+  name?: string;
+  organization?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+}
+
+// Normalized Entity Data
+export interface NormalizedEntityData extends EntityContact {
+  handle: string;
+  tag: string;
+  status?: string[];
+  registrationDate?: string;
+  lastChanged?: string;
+  contacts: EntityContact[];
+  networks: Array<{
+    handle?: string;
+    name?: string;
+    startAddress?: string;
+    endAddress?: string;
+    ipVersion?: string;
+    type?: string;
+    country?: string;
+  }>;
+  autnums: Array<{
+    handle?: string;
+    name?: string;
+    start?: number;
+    end?: number;
+    type?: string;
+    country?: string;
+  }>;
+  remarks?: Array<{
+    title?: string;
+    description?: string[];
+  }>;
+  links?: Array<{
+    value?: string;
+    rel?: string;
+    href?: string;
+    type?: string;
+  }>;
+  conformance?: ConformanceReport;
+  rdapServer: string;
+}
+
+export interface EntityLookupOptions {
+  /** Attach a conformance report for the upstream response */
+  conformance?: boolean;
+  /** Sends the HTTP requests; defaults to the global fetch */
+  transport?: RdapTransport;
+}
+
+/**
+ * Validate an entity handle and extract its object tag (e.g. GOGL-ARIN -> ARIN)
+ */
+export function validateEntityHandle(handle: string): {
+  isValid: boolean;
+  normalized?: string;
+  tag?: string;
+  error?: string;
+} {
+  const cleanHandle = handle.trim().toUpperCase();
+
+  if (!/^[A-Z0-9][A-Z0-9._-]*-[A-Z0-9]+$/.test(cleanHandle)) {
+    return {
+      isValid: false,
+      error: 'Invalid entity handle format (expected e.g. GOGL-ARIN)',
+    };
+  }
+
+  return {
+    isValid: true,
+    normalized: cleanHandle,
+    tag: cleanHandle.slice(cleanHandle.lastIndexOf('-') + 1),
+  };
+}
+
+/**
+ * Find RDAP base URLs for an object tag
+ */
+export async function findRdapServerForTag(
+  tag: string,
+  transport?: RdapTransport,
+): Promise<string[] | null> {
+  const bootstrapData = await fetchBootstrapData('objectTags', transport);
+
+  for (const service of bootstrapData.services) {
+    if (service.length !== 3) continue;
+    const [, tags, urls] = service;
+    if (tags.some((t) => t.toUpperCase() === tag)) {
+      return sortRdapUrls(urls);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extract contact details from an RDAP entity's jCard
+ */
+function extractContact(entity: RdapEntityResponse): EntityContact {
+  const result: EntityContact = {
+    handle: entity.handle,
+    roles: entity.roles,
+  };
+
+  const vcard = entity.vcardArray?.[1];
+  if (!Array.isArray(vcard)) return result;
+
+  const findValue = (property: string): unknown =>
+    vcard.find((item) => Array.isArray(item) && item[0] === property)?.[3];
+
+  const kind = findValue('kind');
+  const fn = findValue('fn');
+  const org = findValue('org');
+  const email = findValue('email');
+  const tel = findValue('tel');
+
+  if (typeof kind === 'string') result.kind = kind;
+  if (typeof fn === 'string') result.name = fn;
+  if (typeof org === 'string') result.organization = org;
+  if (typeof email === 'string') result.email = email;
+  if (typeof tel === 'string') result.phone = tel;
+
+  // Structured addresses are arrays of components; labelled ones carry the
+  // full text in the parameters instead
+  const adr = vcard.find((item) => Array.isArray(item) && item[0] === 'adr');
+  if (adr) {
+    const label = adr[1]?.label;
+    if (typeof label === 'string') {
+      result.address = label;
+    } else if (Array.isArray(adr[3])) {
+      result.address = adr[3]
+        .flat()
+        .filter((part) => typeof part === 'string' && part.trim())
+        .join(', ');
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Flatten nested entities into a list of contacts
+ */
+function collectContacts(entities: RdapEntityResponse[] = []): EntityContact[] {
+  return entities.flatMap((entity) => [
+    extractContact(entity),
+    ...collectContacts(entity.entities),
+  ]);
+}
+
+/**
+ * Extract date from RDAP events
+ */
+function extractDate(
+  events: { eventAction: string; eventDate: string }[] | undefined,
+  action: string,
+): string | undefined {
+  const event = events?.find((e) => e.eventAction === action);
+  return event ? new Date(event.eventDate).toUTCString() : undefined;
+}
+
+/**
+ * Normalize an RDAP entity object, e.g. from a lookup or a search result
+ */
+export function normalizeEntityResponse(
+  rdapData: RdapEntityResponse,
+  handle: string,
+  tag: string,
+  rdapServer: string,
+): NormalizedEntityData {
+  return {
+    ...extractContact(rdapData),
+    handle: rdapData.handle || handle,
+    tag,
+    status: rdapData.status,
+    registrationDate: extractDate(rdapData.events, 'registration'),
+    lastChanged:
+      extractDate(rdapData.events, 'last changed') ||
+      extractDate(rdapData.events, 'last update'),
+    contacts: collectContacts(rdapData.entities),
+    networks:
+      rdapData.networks?.map((network) => ({
+        handle: network.handle,
+        name: network.name,
+        startAddress: network.startAddress,
+        endAddress: network.endAddress,
+        ipVersion: network.ipVersion,
+        type: network.type,
+        country: network.country,
+      })) || [],
+    autnums:
+      rdapData.autnums?.map((autnum) => ({
+        handle: autnum.handle,
+        name: autnum.name,
+        start: autnum.startAutnum,
+        end: autnum.endAutnum,
+        type: autnum.type,
+        country: autnum.country,
+      })) || [],
+    remarks: rdapData.remarks,
+    links: rdapData.links,
+    rdapServer,
+  };
+}
+
+/**
+ * Main function to lookup entity information by handle (RDAP only)
+ */
+export async function lookupEntity(
+  handle: string,
+  options: EntityLookupOptions = {},
+): Promise<NormalizedEntityData> {
+  // Validate handle
+  const validation = validateEntityHandle(handle);
+  if (!validation.isValid || !validation.normalized || !validation.tag) {
+    throw new RdapValidationError(validation.error || 'Invalid entity handle');
+  }
+
+  const normalizedHandle = validation.normalized;
+  const tag = validation.tag;
+
+  try {
+    // Find appropriate RDAP servers through the object tags registry
+    const rdapServers = await findRdapServerForTag(tag, options.transport);
+    if (!rdapServers) {
+      throw new RdapNoServerError(`No RDAP server found for object tag ${tag}`);
+    }
+
+    // Query RDAP servers in order until one answers
+    const { data: rdapData, rdapServer } = await queryRdap<RdapEntityResponse>(
+      rdapServers,
+      `entity/${encodeURIComponent(normalizedHandle)}`,
+      { transport: options.transport },
+    );
+
+    const result = normalizeEntityResponse(
+      rdapData,
+      normalizedHandle,
+      tag,
+      rdapServer,
+    );
+    if (options.conformance) {
+      result.conformance = validateRdapResponse(rdapData, 'entity');
+    }
+    return result;
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`Entity lookup failed for ${normalizedHandle}:`, error);
+    throw error;
+  }
+}
@@ -6,8 +6,79 @@
  */
 import { z } from 'zod';
 
+import { validateIPPrefix } from '@/lib/ip-utils';
+
+const overrideUrls = z.array(z.string().url()).min(1);
+
+/**
+ * Extra or overriding RDAP servers, checked before the IANA bootstrap data.
+ * Loaded from RDAP_OVERRIDES_FILE (a JSON file) or RDAP_OVERRIDES (inline JSON).
+ */
+export const rdapOverridesSchema = z.object({
+  domains: z
+    .array(
+      z.object({ tlds: z.array(z.string().min(1)).min(1), urls: overrideUrls }),
+    )
+    .default([]),
+  ip: z
+    .array(
+      z.object({
+        prefixes: z
+          .array(
+            z.string().refine((prefix) => validateIPPrefix(prefix).isValid, {
+              message: 'Expected an IPv4 or IPv6 CIDR prefix',
+            }),
+          )
+          .min(1),
+        urls: overrideUrls,
+      }),
+    )
+    .default([]),
+  asn: z
+    .array(
+      z.object({
+        ranges: z.array(z.string().regex(/^\d+(-\d+)?$/)).min(1),
+        urls: overrideUrls,
+      }),
+    )
+    .default([]),
+});
+
+export type RdapOverrides = z.infer<typeof rdapOverridesSchema>;
+
+const hostLimits = z.object({
+  /** Requests per second, refilled continuously */
+  rate: z.number().positive().optional(),
+  /** Requests that can be sent at once after an idle period */
+  burst: z.number().min(1).optional(),
+  maxConcurrent: z.number().int().min(1).optional(),
+  queueTimeoutMs: z.number().int().min(0).optional(),
+});
+
+/**
+ * Outbound limits for RDAP servers, as inline JSON in RDAP_HOST_LIMITS:
+ * defaults for every host plus overrides keyed by host name
+ */
+export const hostLimitsSchema = z.object({
+  default: hostLimits.default({}),
+  hosts: z.record(hostLimits).default({}),
+});
+
+export type HostLimits = z.infer<typeof hostLimits>;
+
 const envVariables = z.object({
   NEXT_PUBLIC_SHOW_LOGGER: z.enum(['true', 'false']).optional(),
+  RDAP_BOOTSTRAP_MODE: z.enum(['live', 'offline', 'fallback']).optional(),
+  RDAP_ADMIN_TOKEN: z.string().min(16).optional(),
+  RDAP_OVERRIDES: z.string().optional(),
+  RDAP_OVERRIDES_FILE: z.string().optional(),
+  RDAP_TIMEOUT_MS: z.string().regex(/^\d+$/).optional(),
+  RDAP_MAX_RETRIES: z.string().regex(/^\d+$/).optional(),
+  RDAP_CACHE_TTL_DOMAIN: z.string().regex(/^\d+$/).optional(),
+  RDAP_CACHE_TTL_IP: z.string().regex(/^\d+$/).optional(),
+  RDAP_CACHE_TTL_ASN: z.string().regex(/^\d+$/).optional(),
+  RDAP_CACHE_MAX_ENTRIES: z.string().regex(/^\d+$/).optional(),
+  RDAP_HOST_LIMITS: z.string().optional(),
 });
 
 envVariables.parse(process.env);
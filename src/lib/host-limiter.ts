@@ -0,0 +1,183 @@
+// Outbound limits per RDAP server host: a token bucket for the request rate
+// and a cap on concurrent requests, with a bounded wait in the queue
+import { HostLimits, hostLimitsSchema } from '@/lib/env';
+
+import { RdapQueueTimeoutError } from './rdap-errors';
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface HostState {
+  limits: Required<HostLimits>;
+  tokens: number;
+  lastRefill: number;
+  active: number;
+  queue: Waiter[];
+  refillTimer?: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_LIMITS: Required<HostLimits> = {
+  rate: 10,
+  burst: 20,
+  maxConcurrent: 6,
+  queueTimeoutMs: 10000,
+};
+
+let configuredLimits: {
+  default: Required<HostLimits>;
+  hosts: Record<string, HostLimits>;
+} | null = null;
+const hosts = new Map<string, HostState>();
+
+/**
+ * Read the default and per-host limits from RDAP_HOST_LIMITS once
+ */
+function getConfiguredLimits() {
+  if (configuredLimits) return configuredLimits;
+
+  let json: unknown = {};
+  if (process.env.RDAP_HOST_LIMITS) {
+    try {
+      json = JSON.parse(process.env.RDAP_HOST_LIMITS);
+    } catch (e) {
+      throw new Error('Invalid RDAP host limits: not valid JSON');
+    }
+  }
+
+  const result = hostLimitsSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid RDAP host limits: ${result.error.message}`);
+  }
+
+  const hostLimits: Record<string, HostLimits> = {};
+  for (const [host, limits] of Object.entries(result.data.hosts)) {
+    hostLimits[host.toLowerCase()] = limits;
+  }
+  configuredLimits = {
+    default: { ...DEFAULT_LIMITS, ...result.data.default },
+    hosts: hostLimits,
+  };
+  return configuredLimits;
+}
+
+function getHostState(host: string): HostState {
+  let state = hosts.get(host);
+  if (!state) {
+    const { default: defaults, hosts: hostLimits } = getConfiguredLimits();
+    const limits = { ...defaults, ...hostLimits[host] };
+    state = {
+      limits,
+      tokens: limits.burst,
+      lastRefill: Date.now(),
+      active: 0,
+      queue: [],
+    };
+    hosts.set(host, state);
+  }
+  return state;
+}
+
+function refill(state: HostState) {
+  const now = Date.now();
+  state.tokens = Math.min(
+    state.limits.burst,
+    state.tokens + ((now - state.lastRefill) / 1000) * state.limits.rate,
+  );
+  state.lastRefill = now;
+}
+
+/**
+ * Hand out slots to queued requests while both a token and a concurrency
+ * slot are available, then wait for the next token if still blocked on rate
+ */
+function drain(state: HostState) {
+  refill(state);
+
+  while (
+    state.queue.length > 0 &&
+    state.active < state.limits.maxConcurrent &&
+    state.tokens >= 1
+  ) {
+    const waiter = state.queue.shift() as Waiter;
+    clearTimeout(waiter.timer);
+    state.tokens -= 1;
+    state.active += 1;
+
+    let released = false;
+    waiter.resolve(() => {
+      if (released) return;
+      released = true;
+      state.active -= 1;
+      drain(state);
+    });
+  }
+
+  if (
+    state.queue.length > 0 &&
+    state.active < state.limits.maxConcurrent &&
+    !state.refillTimer
+  ) {
+    const wait = ((1 - state.tokens) / state.limits.rate) * 1000;
+    state.refillTimer = setTimeout(() => {
+      state.refillTimer = undefined;
+      drain(state);
+    }, Math.ceil(wait));
+  }
+}
+
+/**
+ * Wait for permission to send one request to the host of an RDAP URL; the
+ * returned function must be called once the request has finished
+ */
+export function acquireHostSlot(url: string): Promise<() => void> {
+  const { hostname: host, origin } = new URL(url);
+  const state = getHostState(host);
+
+  return new Promise((resolve, reject) => {
+    const waiter: Waiter = {
+      resolve,
+      timer: setTimeout(() => {
+        state.queue = state.queue.filter((queued) => queued !== waiter);
+        reject(
+          new RdapQueueTimeoutError(
+            `Timed out after ${state.limits.queueTimeoutMs}ms waiting to query ${host}`,
+            `${origin}/`,
+          ),
+        );
+      }, state.limits.queueTimeoutMs),
+    };
+
+    state.queue.push(waiter);
+    drain(state);
+  });
+}
+
+/**
+ * Limiter state per host for diagnostics
+ */
+export function getHostLimiterStats() {
+  return Array.from(hosts.entries()).map(([host, state]) => {
+    refill(state);
+    return {
+      host,
+      active: state.active,
+      queued: state.queue.length,
+      tokens: Math.floor(state.tokens * 100) / 100,
+      limits: state.limits,
+    };
+  });
+}
+
+/**
+ * Forget all limiter state and re-read the configured limits
+ */
+export function resetHostLimiters() {
+  hosts.forEach((state) => {
+    clearTimeout(state.refillTimer);
+    state.queue.forEach((waiter) => clearTimeout(waiter.timer));
+  });
+  hosts.clear();
+  configuredLimits = null;
+}
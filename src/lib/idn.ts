@@ -0,0 +1,52 @@
+// Internationalized domain names: UTS-46 processing to the A-labels RDAP
+// servers are queried with, and back to U-labels for display
+import { domainToASCII, domainToUnicode } from 'url';
+
+export interface DomainNameValidationResult {
+  isValid: boolean;
+  /** Lowercase A-label (punycode) form, e.g. `xn--mnchen-3ya.de` */
+  ldhName?: string;
+  /** U-label form, e.g. `münchen.de`; the same as ldhName for ASCII names */
+  unicodeName?: string;
+  /** Last label in A-label form */
+  tld?: string;
+  error?: string;
+}
+
+const LDH_LABEL = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+
+/**
+ * Validate a domain name in either form and convert it with UTS-46
+ * (nontransitional, as IDNA2008 requires: `faß.de` keeps its ß)
+ */
+export function normalizeDomainName(input: string): DomainNameValidationResult {
+  const trimmed = input.trim().replace(/\.$/, '');
+  const invalid = {
+    isValid: false,
+    error: `'${input}' is not a valid domain format.`,
+  };
+
+  // Returns an empty string when UTS-46 processing fails
+  const ldhName = trimmed && domainToASCII(trimmed);
+  if (!ldhName || ldhName.length > 253) return invalid;
+
+  const labels = ldhName.split('.');
+  if (labels.length < 2 || !labels.every((label) => LDH_LABEL.test(label))) {
+    return invalid;
+  }
+
+  return {
+    isValid: true,
+    ldhName,
+    unicodeName: domainToUnicode(ldhName),
+    tld: labels[labels.length - 1],
+  };
+}
+
+/**
+ * U-label form of an A-label domain name, if it has any IDN labels
+ */
+export function toUnicodeName(ldhName: string): string | undefined {
+  if (!/(^|\.)xn--/i.test(ldhName)) return undefined;
+  return domainToUnicode(ldhName.toLowerCase()) || undefined;
+}
@@ -0,0 +1,23 @@
+// De-duplication of concurrent identical lookups
+
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Run a lookup once for all concurrent callers with the same key; every
+ * caller receives the same result or the same error
+ */
+export function coalesceLookup<T>(key: string, run: () => Promise<T>) {
+  const pending = inFlight.get(key) as Promise<T> | undefined;
+  if (pending) return pending;
+
+  const promise = run().finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+}
+
+/**
+ * Number of lookups currently waiting on an upstream server
+ */
+export function getInFlightCount(): number {
+  return inFlight.size;
+}
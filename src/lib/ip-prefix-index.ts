@@ -0,0 +1,103 @@
+import { Address4, Address6 } from 'ip-address';
+
+import { IPVersion } from './ip-utils';
+import { BootstrapData } from './rdap-bootstrap';
+
+// Binary trie of bootstrap prefixes for longest-prefix matching
+
+interface PrefixNode {
+  children: [PrefixNode | undefined, PrefixNode | undefined];
+  match?: PrefixMatch;
+}
+
+export interface PrefixMatch {
+  prefix: string;
+  urls: string[];
+}
+
+export interface PrefixIndex {
+  version: IPVersion;
+  size: number;
+  lookup: (address: string) => PrefixMatch | null;
+}
+
+/**
+ * Parse an address or CIDR into its leading network bits
+ */
+function toPrefixBits(address: string, version: IPVersion): string | null {
+  try {
+    const parsed =
+      version === 'IPv4' ? new Address4(address) : new Address6(address);
+    return parsed.binaryZeroPad().slice(0, parsed.subnetMask);
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Compile bootstrap services into a prefix index. When the same prefix is
+ * listed twice the first service wins, matching IANA file order.
+ */
+export function buildPrefixIndex(
+  services: BootstrapData['services'],
+  version: IPVersion,
+): PrefixIndex {
+  const root: PrefixNode = { children: [undefined, undefined] };
+  let size = 0;
+
+  for (const [prefixes, urls] of services) {
+    for (const prefix of prefixes) {
+      const bits = toPrefixBits(prefix, version);
+      if (bits === null) continue;
+
+      let node = root;
+      for (const bit of bits) {
+        const branch = bit === '1' ? 1 : 0;
+        node = node.children[branch] ??= { children: [undefined, undefined] };
+      }
+
+      if (!node.match) {
+        node.match = { prefix, urls };
+        size++;
+      }
+    }
+  }
+
+  return {
+    version,
+    size,
+    lookup: (address: string): PrefixMatch | null => {
+      const bits = toPrefixBits(address, version);
+      if (bits === null) return null;
+
+      // Walk as deep as the address allows, remembering the last match
+      let node: PrefixNode | undefined = root;
+      let best = root.match ?? null;
+      for (const bit of bits) {
+        node = node.children[bit === '1' ? 1 : 0];
+        if (!node) break;
+        if (node.match) best = node.match;
+      }
+
+      return best;
+    },
+  };
+}
+
+const indexCache = new WeakMap<object, PrefixIndex>();
+
+/**
+ * Get the prefix index for a set of bootstrap services, compiling it once per
+ * bootstrap refresh (the cache is keyed by the services array itself)
+ */
+export function getPrefixIndex(
+  services: BootstrapData['services'],
+  version: IPVersion,
+): PrefixIndex {
+  let index = indexCache.get(services);
+  if (!index) {
+    index = buildPrefixIndex(services, version);
+    indexCache.set(services, index);
+  }
+  return index;
+}
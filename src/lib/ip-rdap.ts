@@ -1,13 +1,41 @@
-import { Address4, Address6 } from 'ip-address';
-
-import { IPVersion, isPrivateIP, isReservedIP, validateIP } from './ip-utils';
-import { fetchBootstrapData } from './rdap-bootstrap';
+import { coalesceLookup } from './inflight';
+import { getPrefixIndex } from './ip-prefix-index';
+import {
+  comparePrefix,
+  getRangePrefixLength,
+  IPVersion,
+  isPrivateIP,
+  isReservedIP,
+  PrefixMatch,
+  validateIP,
+  validateIPPrefix,
+} from './ip-utils';
+import { fetchBootstrapData, sortRdapUrls } from './rdap-bootstrap';
+import { fetchRdapUrl, queryRdap, RdapClientOptions } from './rdap-client';
+import {
+  ConformanceReport,
+  RdapObject,
+  validateRdapResponse,
+} from './rdap-conformance';
+import {
+  RdapNoServerError,
+  RdapUnsupportedAddressError,
+  RdapValidationError,
+} from './rdap-errors';
+import { findIPOverride, RdapServerMatch } from './rdap-overrides';
+import { RdapTransport } from './rdap-transport';
+import { lookupReverseDns, ReverseDnsData } from './reverse-dns';
 
 // Enhanced interface for RDAP data with more details
 export interface NormalizedIPData {
+  /** The queried address, or CIDR prefix such as `192.0.2.0/24` */
   ip: string;
   type: IPVersion;
+  /** For prefix queries, how the returned network relates to the prefix */
+  prefixMatch?: PrefixMatch;
   network: {
+    handle?: string;
+    parentHandle?: string;
     cidr?: string;
     name?: string;
     country?: string;
@@ -35,7 +63,28 @@ export interface NormalizedIPData {
     href?: string;
     type?: string;
   }>;
+  hierarchy?: {
+    /** Ancestor networks, outermost (e.g. the RIR allocation) first */
+    parents: IPNetworkSummary[];
+    children: IPNetworkSummary[];
+  };
+  conformance?: ConformanceReport;
+  /** The in-addr.arpa / ip6.arpa delegation covering the address */
+  reverseDns?: ReverseDnsData;
+  reverseDnsError?: string;
   rdapServer: string;
+  rdapServerOverride?: boolean;
+}
+
+export interface IPNetworkSummary {
+  handle?: string;
+  parentHandle?: string;
+  name?: string;
+  cidr?: string;
+  startAddress?: string;
+  endAddress?: string;
+  type?: string;
+  country?: string;
 }
 
 // RDAP Response Interfaces
@@ -48,8 +97,10 @@ interface RdapIPEntity {
   ];
 }
 
-interface RdapIPResponse {
+interface RdapIPResponse extends RdapObject {
   objectClassName: string;
+  handle?: string;
+  parentHandle?: string;
   startAddress?: string;
   endAddress?: string;
   name?: string;
@@ -73,87 +124,176 @@ interface RdapIPResponse {
 // Using centralized bootstrap utility
 
 /**
- * Find RDAP server for IP
+ * Find RDAP base URLs for IP, checking configured overrides before the
+ * longest matching bootstrap prefix
  */
 async function findRdapServerForIP(
   ip: string,
   version: IPVersion,
-): Promise<string | null> {
+  transport?: RdapTransport,
+): Promise<RdapServerMatch | null> {
+  const override = findIPOverride(ip, version);
+  if (override) return { urls: override, override: true };
+
   const bootstrapData = await fetchBootstrapData(
     version === 'IPv4' ? 'ipv4' : 'ipv6',
+    transport,
   );
-  const cache = bootstrapData.services;
-
-  for (const [cidrs, urls] of cache) {
-    for (const cidr of cidrs) {
-      try {
-        if (version === 'IPv4') {
-          const ipAddr = new Address4(ip);
-          const range = new Address4(cidr);
-          if (ipAddr.isInSubnet(range)) {
-            return urls[0];
-          }
-        } else {
-          const ipAddr = new Address6(ip);
-          const range = new Address6(cidr);
-          if (ipAddr.isInSubnet(range)) {
-            return urls[0];
-          }
+  const match = getPrefixIndex(bootstrapData.services, version).lookup(ip);
+
+  return match ? { urls: sortRdapUrls(match.urls), override: false } : null;
+}
+
+/**
+ * Build CIDR notation for a network range
+ */
+function buildCidr(
+  startAddress: string | undefined,
+  endAddress: string | undefined,
+): string | undefined {
+  if (!startAddress || !endAddress) return undefined;
+
+  const prefixLength = getRangePrefixLength(startAddress, endAddress);
+  return prefixLength === undefined
+    ? `${startAddress}-${endAddress}`
+    : `${startAddress}/${prefixLength}`;
+}
+
+/**
+ * Summarize an RDAP ip network object for the hierarchy
+ */
+function summarizeNetwork(data: RdapIPResponse): IPNetworkSummary {
+  return {
+    handle: data.handle,
+    parentHandle: data.parentHandle,
+    name: data.name,
+    cidr: buildCidr(data.startAddress, data.endAddress),
+    startAddress: data.startAddress,
+    endAddress: data.endAddress,
+    type: data.type,
+    country: data.country,
+  };
+}
+
+const MAX_HIERARCHY_DEPTH = 8;
+const MAX_CHILD_LINKS = 5;
+const MAX_CHILDREN = 50;
+
+/**
+ * Find the parent network: the `up` link when the server provides one,
+ * otherwise, for networks with a `parentHandle`, a query for the prefix one
+ * bit shorter, which returns the smallest covering network
+ */
+async function fetchParentNetwork(
+  network: RdapIPResponse,
+  rdapServer: string,
+  client: RdapClientOptions,
+): Promise<RdapIPResponse | null> {
+  const upLink = network.links?.find((link) => link.rel === 'up' && link.href);
+  if (upLink?.href) {
+    return (await fetchRdapUrl<RdapIPResponse>(upLink.href, client)).data;
+  }
+
+  const cidr = buildCidr(network.startAddress, network.endAddress);
+  const prefixLength = Number(cidr?.split('/')[1]);
+  if (!network.parentHandle || !(prefixLength > 0)) {
+    return null;
+  }
+
+  // The shorter prefix needs its host bits cleared: 8.8.9.0/24 asks for
+  // 8.8.8.0/23
+  const parentPrefix = validateIPPrefix(
+    `${network.startAddress}/${prefixLength - 1}`,
+  ).normalized;
+  if (!parentPrefix) return null;
+
+  const { data } = await queryRdap<RdapIPResponse>(
+    [rdapServer],
+    `ip/${parentPrefix}`,
+    client,
+  );
+  return data;
+}
+
+/**
+ * Collect child networks from `down` links, and from `related` links whose
+ * networks name this one as their parent
+ */
+async function fetchChildNetworks(
+  network: RdapIPResponse,
+  client: RdapClientOptions,
+): Promise<IPNetworkSummary[]> {
+  const childLinks = (network.links ?? [])
+    .filter(
+      (link) =>
+        link.href &&
+        (link.rel === 'down' ||
+          (link.rel === 'related' && /\/ips?(\/|\?|$)/.test(link.href))),
+    )
+    .slice(0, MAX_CHILD_LINKS);
+
+  const children: IPNetworkSummary[] = [];
+  for (const link of childLinks) {
+    try {
+      const { data } = await fetchRdapUrl<
+        RdapIPResponse & Record<string, unknown>
+      >(link.href as string, client);
+
+      // A link may point to a single network or to search results
+      const candidates: RdapIPResponse[] =
+        data.objectClassName === 'ip network'
+          ? [data]
+          : Object.keys(data)
+              .filter((key) => key.endsWith('SearchResults'))
+              .flatMap((key) => data[key] as RdapIPResponse[]);
+
+      for (const candidate of candidates) {
+        if (candidate.handle === network.handle) continue;
+        if (
+          link.rel === 'related' &&
+          candidate.parentHandle !== network.handle
+        ) {
+          continue;
         }
-      } catch (e) {
-        continue;
+        children.push(summarizeNetwork(candidate));
       }
+    } catch (e) {
+      // Child networks are best effort
     }
   }
 
-  return null;
+  return children.slice(0, MAX_CHILDREN);
 }
 
 /**
- * Query RDAP server for IP information
+ * Walk up and down from a network to build its allocation chain
  */
-async function queryRdapServer(
-  ip: string,
-  rdapServerUrl: string,
-): Promise<RdapIPResponse> {
-  const baseUrl = rdapServerUrl.endsWith('/')
-    ? rdapServerUrl
-    : `${rdapServerUrl}/`;
-  const queryUrl = `${baseUrl}ip/${ip}`;
+async function fetchNetworkHierarchy(
+  network: RdapIPResponse,
+  rdapServer: string,
+  client: RdapClientOptions,
+): Promise<NonNullable<NormalizedIPData['hierarchy']>> {
+  const parents: IPNetworkSummary[] = [];
+  const seen = new Set([network.handle]);
+  let current = network;
 
   try {
-    const response = await fetch(queryUrl, {
-      headers: {
-        Accept: 'application/rdap+json, application/json',
-        'User-Agent': 'RDAPclient/1.0',
-      },
-    });
-
-    if (!response.ok) {
-      let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-      try {
-        const errorData = await response.json();
-        errorMessage = errorData.description || errorData.title || errorMessage;
-      } catch (e) {
-        // Use default error message
-      }
-      throw new Error(errorMessage);
-    }
+    while (parents.length < MAX_HIERARCHY_DEPTH) {
+      const parent = await fetchParentNetwork(current, rdapServer, client);
+      if (!parent || seen.has(parent.handle)) break;
 
-    return await response.json();
-  } catch (error) {
-    // eslint-disable-next-line no-console
-    console.error(`RDAP query failed for ${ip}:`, error);
-    throw error;
+      seen.add(parent.handle);
+      parents.unshift(summarizeNetwork(parent));
+      current = parent;
+    }
+  } catch (e) {
+    // Keep whatever part of the chain was resolved
   }
-}
 
-/**
- * Convert IP to integer for range comparison (IPv4 only)
- */
-function ipToInt(ip: string): number {
-  const parts = ip.split('.').map(Number);
-  return (parts[0] << 24) + (parts[1] << 16) + (parts[2] << 8) + parts[3];
+  return {
+    parents,
+    children: await fetchChildNetworks(network, client),
+  };
 }
 
 /**
@@ -226,37 +366,120 @@ function extractDate(
   return event ? new Date(event.eventDate).toUTCString() : undefined;
 }
 
+export interface IPLookupOptions {
+  /** Also resolve parent and child networks */
+  hierarchy?: boolean;
+  /** Attach a conformance report for the upstream response */
+  conformance?: boolean;
+  /** Also look up the reverse DNS delegation */
+  reverse?: boolean;
+  /** Sends the HTTP requests; defaults to the global fetch */
+  transport?: RdapTransport;
+}
+
+/**
+ * Look up the reverse delegation for an address, reporting a failure next
+ * to the network data instead of failing the whole lookup
+ */
+async function fetchReverseDelegation(
+  ip: string,
+  version: IPVersion,
+  rdapServer: string,
+  prefixLength?: number,
+  transport?: RdapTransport,
+): Promise<Pick<NormalizedIPData, 'reverseDns' | 'reverseDnsError'>> {
+  try {
+    return {
+      reverseDns: await lookupReverseDns(ip, version, {
+        prefixLength,
+        fallbackServers: [rdapServer],
+        transport,
+      }),
+    };
+  } catch (error) {
+    return {
+      reverseDnsError:
+        error instanceof Error ? error.message : 'Reverse DNS lookup failed',
+    };
+  }
+}
+
 /**
- * Main function to lookup IP information (RDAP only)
+ * Main function to lookup IP information (RDAP only). Accepts a single
+ * address or a CIDR prefix such as `2001:db8::/32`.
  */
-export async function lookupIP(ip: string): Promise<NormalizedIPData> {
-  // Validate IP address
-  const validation = validateIP(ip);
+export async function lookupIP(
+  ip: string,
+  options: IPLookupOptions = {},
+): Promise<NormalizedIPData> {
+  // Validate IP address or prefix
+  const prefix = ip.includes('/') ? validateIPPrefix(ip) : undefined;
+  const validation = prefix ?? validateIP(ip);
   if (!validation.isValid || !validation.version || !validation.normalized) {
-    throw new Error(validation.error || 'Invalid IP address');
+    throw new RdapValidationError(validation.error || 'Invalid IP address');
   }
 
-  const normalizedIP = validation.normalized;
+  // Prefixes are checked and routed by their network address
+  const normalizedIP = prefix?.network ?? validation.normalized;
   const version = validation.version;
 
-  // Check for private/reserved IP addresses
-  if (isPrivateIP(normalizedIP)) {
-    throw new Error('Private IP addresses are not supported');
+  // Check for private/reserved IP addresses, unless an override serves them
+  const hasOverride = findIPOverride(normalizedIP, version) !== null;
+  if (!hasOverride && isPrivateIP(normalizedIP)) {
+    throw new RdapUnsupportedAddressError(
+      'Private IP addresses are not supported',
+    );
   }
 
-  if (isReservedIP(normalizedIP)) {
-    throw new Error('Reserved IP addresses are not supported');
+  if (!hasOverride && isReservedIP(normalizedIP)) {
+    throw new RdapUnsupportedAddressError(
+      'Reserved IP addresses are not supported',
+    );
   }
 
+  // Concurrent callers for the same address share one upstream query
+  return coalesceLookup(
+    `ip:${validation.normalized}${options.hierarchy ? '?hierarchy' : ''}${
+      options.conformance ? '?conformance' : ''
+    }${options.reverse ? '?reverse' : ''}`,
+    () => fetchIPLookup(normalizedIP, version, options, prefix?.prefixLength),
+  );
+}
+
+/**
+ * Query RDAP for a validated IP address or prefix and normalize the response
+ */
+async function fetchIPLookup(
+  normalizedIP: string,
+  version: IPVersion,
+  options: IPLookupOptions,
+  prefixLength?: number,
+): Promise<NormalizedIPData> {
+  const query =
+    prefixLength === undefined
+      ? normalizedIP
+      : `${normalizedIP}/${prefixLength}`;
+  const client = { transport: options.transport };
+
   try {
-    // Find appropriate RDAP server
-    const rdapServer = await findRdapServerForIP(normalizedIP, version);
-    if (!rdapServer) {
-      throw new Error(`No RDAP server found for IP ${normalizedIP}`);
+    // Find appropriate RDAP servers
+    const serverMatch = await findRdapServerForIP(
+      normalizedIP,
+      version,
+      options.transport,
+    );
+    if (!serverMatch) {
+      throw new RdapNoServerError(
+        `No RDAP server found for IP ${normalizedIP}`,
+      );
     }
 
-    // Query RDAP server
-    const rdapData = await queryRdapServer(normalizedIP, rdapServer);
+    // Query RDAP servers in order until one answers
+    const { data: rdapData, rdapServer } = await queryRdap<RdapIPResponse>(
+      serverMatch.urls,
+      `ip/${query}`,
+      client,
+    );
 
     // Extract essential network information
     const organization = rdapData.entities
@@ -267,31 +490,24 @@ export async function lookupIP(ip: string): Promise<NormalizedIPData> {
     );
 
     // Build CIDR notation
-    let cidr: string | undefined;
-    if (rdapData.startAddress && rdapData.endAddress) {
-      if (version === 'IPv4') {
-        try {
-          const startInt = ipToInt(rdapData.startAddress);
-          const endInt = ipToInt(rdapData.endAddress);
-          const size = endInt - startInt + 1;
-          const prefixLength = 32 - Math.log2(size);
-          cidr = `${rdapData.startAddress}/${Math.floor(prefixLength)}`;
-        } catch (e) {
-          cidr = `${rdapData.startAddress}-${rdapData.endAddress}`;
-        }
-      } else {
-        cidr = `${rdapData.startAddress}/64`; // Default for IPv6
-      }
-    }
+    const cidr = buildCidr(rdapData.startAddress, rdapData.endAddress);
 
     // Extract entity details
     const entities = rdapData.entities?.map(extractEntityDetails);
 
     // Build response with enhanced RDAP data
     const result: NormalizedIPData = {
-      ip: normalizedIP,
+      ip: query,
       type: version,
+      prefixMatch:
+        prefixLength !== undefined &&
+        rdapData.startAddress &&
+        rdapData.endAddress
+          ? comparePrefix(rdapData.startAddress, rdapData.endAddress, query)
+          : undefined,
       network: {
+        handle: rdapData.handle,
+        parentHandle: rdapData.parentHandle,
         cidr,
         name: rdapData.name,
         country: rdapData.country,
@@ -307,15 +523,29 @@ export async function lookupIP(ip: string): Promise<NormalizedIPData> {
       entities,
       remarks: rdapData.remarks,
       links: rdapData.links,
+      hierarchy: options.hierarchy
+        ? await fetchNetworkHierarchy(rdapData, rdapServer, client)
+        : undefined,
+      conformance: options.conformance
+        ? validateRdapResponse(rdapData, 'ip network')
+        : undefined,
+      ...(options.reverse
+        ? await fetchReverseDelegation(
+            normalizedIP,
+            version,
+            rdapServer,
+            prefixLength,
+            options.transport,
+          )
+        : {}),
       rdapServer,
+      rdapServerOverride: serverMatch.override,
     };
 
     return result;
   } catch (error) {
-    const errorMessage =
-      error instanceof Error ? error.message : 'Unknown error occurred';
     // eslint-disable-next-line no-console
-    console.error(`IP lookup failed for ${normalizedIP}:`, error);
-    throw new Error(errorMessage);
+    console.error(`IP lookup failed for ${query}:`, error);
+    throw error;
   }
 }
@@ -29,13 +29,14 @@ export function validateIP(ip: string): IPValidationResult {
       // Not IPv4, try IPv6
     }
 
-    // Try IPv6
+    // Try IPv6, normalized to its canonical form (RFC 5952) so every
+    // spelling of an address gets the same cache and lookup keys
     try {
       const ipv6 = new Address6(cleanIP);
       return {
         isValid: true,
         version: 'IPv6',
-        normalized: ipv6.address,
+        normalized: ipv6.correctForm(),
       };
     } catch (e) {
       // Not IPv6 either
@@ -147,6 +148,73 @@ export function isReservedIP(ip: string): boolean {
   return false;
 }
 
+// Blocks that are not globally reachable, from the IANA IPv4 and IPv6
+// Special-Purpose Address Registries (RFC 6890), plus multicast
+const SPECIAL_PURPOSE_IPV4 = [
+  '0.0.0.0/8', // "This" network
+  '10.0.0.0/8', // Private use
+  '100.64.0.0/10', // Shared address space (carrier-grade NAT)
+  '127.0.0.0/8', // Loopback
+  '169.254.0.0/16', // Link local
+  '172.16.0.0/12', // Private use
+  '192.0.0.0/24', // IETF protocol assignments
+  '192.0.2.0/24', // Documentation (TEST-NET-1)
+  '192.88.99.0/24', // Deprecated 6to4 relay anycast
+  '192.168.0.0/16', // Private use
+  '198.18.0.0/15', // Benchmarking
+  '198.51.100.0/24', // Documentation (TEST-NET-2)
+  '203.0.113.0/24', // Documentation (TEST-NET-3)
+  '224.0.0.0/4', // Multicast
+  '240.0.0.0/4', // Reserved, including the limited broadcast address
+].map((prefix) => new Address4(prefix));
+
+const SPECIAL_PURPOSE_IPV6 = [
+  '::/128', // Unspecified
+  '::1/128', // Loopback
+  '64:ff9b:1::/48', // IPv4-IPv6 translation, local use
+  '100::/64', // Discard only
+  '2001::/23', // IETF protocol assignments
+  '2001:db8::/32', // Documentation
+  '2002::/16', // 6to4
+  '3fff::/20', // Documentation
+  '5f00::/16', // Segment routing SIDs
+  'fc00::/7', // Unique local
+  'fe80::/10', // Link local
+  'fec0::/10', // Deprecated site local
+  'ff00::/8', // Multicast
+].map((prefix) => new Address6(prefix));
+
+// IPv6 blocks that carry an IPv4 address in their last 32 bits
+const EMBEDDED_IPV4 = [
+  '::ffff:0:0/96', // IPv4-mapped
+  '64:ff9b::/96', // IPv4-IPv6 translation
+].map((prefix) => new Address6(prefix));
+
+/**
+ * Whether an address can be reached on the public internet, i.e. lies
+ * outside every IANA special-purpose block. IPv4 addresses mapped or
+ * translated into IPv6 are judged by the IPv4 address they carry.
+ */
+export function isGloballyReachableIP(ip: string): boolean {
+  const validation = validateIP(ip);
+  if (!validation.isValid || !validation.normalized) return false;
+
+  try {
+    if (validation.version === 'IPv4') {
+      const ipv4 = new Address4(validation.normalized);
+      return !SPECIAL_PURPOSE_IPV4.some((range) => ipv4.isInSubnet(range));
+    }
+
+    const ipv6 = new Address6(validation.normalized);
+    if (EMBEDDED_IPV4.some((range) => ipv6.isInSubnet(range))) {
+      return isGloballyReachableIP(ipv6.to4().correctForm());
+    }
+    return !SPECIAL_PURPOSE_IPV6.some((range) => ipv6.isInSubnet(range));
+  } catch (e) {
+    return false;
+  }
+}
+
 /**
  * Get the IP version
  */
@@ -163,6 +231,39 @@ export function ipv4ToInt(ip: string): number {
   return (parts[0] << 24) + (parts[1] << 16) + (parts[2] << 8) + parts[3];
 }
 
+/**
+ * Length of the CIDR prefix that spans exactly an address range, for either
+ * address family; undefined when the range is not a single CIDR block
+ */
+export function getRangePrefixLength(
+  startAddress: string,
+  endAddress: string,
+): number | undefined {
+  const start = validateIP(startAddress);
+  const end = validateIP(endAddress);
+  if (!start.isValid || !end.isValid || start.version !== end.version) {
+    return undefined;
+  }
+
+  const [first, last] =
+    start.version === 'IPv4'
+      ? [new Address4(startAddress).bigInt(), new Address4(endAddress).bigInt()]
+      : [
+          new Address6(startAddress).bigInt(),
+          new Address6(endAddress).bigInt(),
+        ];
+  if (last < first) return undefined;
+
+  // A CIDR block holds 2^n addresses and starts on a multiple of its size
+  const size = last - first + BigInt(1);
+  if ((size & (size - BigInt(1))) !== BigInt(0) || first % size !== BigInt(0)) {
+    return undefined;
+  }
+
+  const hostBits = size.toString(2).length - 1;
+  return (start.version === 'IPv4' ? 32 : 128) - hostBits;
+}
+
 /**
  * Check if IPv4 is in CIDR range
  */
@@ -188,3 +289,83 @@ export function isIPv6InCIDR(ip: string, cidr: string): boolean {
     return false;
   }
 }
+
+export interface IPPrefixValidationResult extends IPValidationResult {
+  /** Network address, with any host bits cleared */
+  network?: string;
+  prefixLength?: number;
+}
+
+/**
+ * Validate a CIDR prefix (e.g. `192.0.2.0/24`) and normalize it to its
+ * network address, so `192.0.2.7/24` becomes `192.0.2.0/24`
+ */
+export function validateIPPrefix(prefix: string): IPPrefixValidationResult {
+  const [address, length, ...rest] = prefix.trim().split('/');
+  const invalid = {
+    isValid: false,
+    error: `'${prefix}' is not a valid CIDR prefix`,
+  };
+  if (rest.length > 0 || !/^\d{1,3}$/.test(length ?? '')) return invalid;
+
+  const validation = validateIP(address);
+  if (!validation.isValid || !validation.version) return invalid;
+
+  try {
+    const network =
+      validation.version === 'IPv4'
+        ? new Address4(`${address}/${length}`).startAddress().correctForm()
+        : new Address6(`${address}/${length}`).startAddress().correctForm();
+    const prefixLength = Number(length);
+
+    return {
+      isValid: true,
+      version: validation.version,
+      normalized: `${network}/${prefixLength}`,
+      network,
+      prefixLength,
+    };
+  } catch (e) {
+    // Prefix length out of range for the address family
+    return invalid;
+  }
+}
+
+export type PrefixMatch = 'exact' | 'contains' | 'overlaps';
+
+/**
+ * How a registered network range relates to a requested prefix: the same
+ * range, a range that covers the whole prefix, or one that covers only part
+ * of it
+ */
+export function comparePrefix(
+  startAddress: string,
+  endAddress: string,
+  prefix: string,
+): PrefixMatch | undefined {
+  const toBigInt = (ip: string): bigint | undefined => {
+    const validation = validateIP(ip);
+    if (!validation.isValid) return undefined;
+    return validation.version === 'IPv4'
+      ? new Address4(ip).bigInt()
+      : new Address6(ip).bigInt();
+  };
+
+  const requested = validateIPPrefix(prefix);
+  if (!requested.isValid || !requested.normalized) return undefined;
+  const range =
+    requested.version === 'IPv4'
+      ? new Address4(requested.normalized)
+      : new Address6(requested.normalized);
+
+  const start = toBigInt(startAddress);
+  const end = toBigInt(endAddress);
+  if (start === undefined || end === undefined) return undefined;
+
+  const prefixStart = range.startAddress().bigInt();
+  const prefixEnd = range.endAddress().bigInt();
+
+  if (start === prefixStart && end === prefixEnd) return 'exact';
+  if (start <= prefixStart && end >= prefixEnd) return 'contains';
+  return 'overlaps';
+}
@@ -0,0 +1,97 @@
+// In-memory LRU cache of normalized lookup results, with a TTL per object type
+import { createHash } from 'crypto';
+
+import { lookupCacheMaxEntries, lookupCacheTtl } from '@/constant/env';
+
+export type LookupType = keyof typeof lookupCacheTtl;
+
+export interface CachedLookup<T> {
+  value: T;
+  /** Strong validator derived from the JSON body */
+  etag: string;
+  storedAt: number;
+  expiry: number;
+  /** Whether the value was served from the cache */
+  hit: boolean;
+}
+
+// Map iteration order doubles as recency order: oldest entries come first
+const lookupCache = new Map<string, CachedLookup<unknown>>();
+
+/**
+ * Look up a result in the cache, refreshing its recency on a hit
+ */
+function getCachedLookup<T>(cacheKey: string): CachedLookup<T> | null {
+  const entry = lookupCache.get(cacheKey);
+  if (!entry) return null;
+
+  lookupCache.delete(cacheKey);
+  if (entry.expiry <= Date.now()) return null;
+
+  lookupCache.set(cacheKey, entry);
+  return { ...(entry as CachedLookup<T>), hit: true };
+}
+
+/**
+ * Store a result, evicting the least recently used entries beyond the limit
+ */
+function setCachedLookup(cacheKey: string, entry: CachedLookup<unknown>) {
+  lookupCache.delete(cacheKey);
+  lookupCache.set(cacheKey, entry);
+
+  while (lookupCache.size > lookupCacheMaxEntries) {
+    const oldest = lookupCache.keys().next().value as string;
+    lookupCache.delete(oldest);
+  }
+}
+
+/**
+ * Serve a lookup from the cache, or load and cache it. `fresh` skips the
+ * cached copy but still stores the new result; errors are never cached.
+ */
+export async function cachedLookup<T>(
+  type: LookupType,
+  key: string,
+  load: () => Promise<T>,
+  { fresh = false }: { fresh?: boolean } = {},
+): Promise<CachedLookup<T>> {
+  const cacheKey = `${type}:${key.toLowerCase()}`;
+  const ttl = lookupCacheTtl[type] * 1000;
+
+  const cached = fresh ? null : getCachedLookup<T>(cacheKey);
+  if (cached) return cached;
+
+  const value = await load();
+  const storedAt = Date.now();
+  const entry: CachedLookup<T> = {
+    value,
+    etag: `"${createHash('sha1')
+      .update(JSON.stringify(value))
+      .digest('base64')
+      .replace(/=+$/, '')}"`,
+    storedAt,
+    expiry: storedAt + ttl,
+    hit: false,
+  };
+
+  if (ttl > 0) setCachedLookup(cacheKey, entry);
+  return entry;
+}
+
+/**
+ * Drop every cached lookup result
+ */
+export function clearLookupCache() {
+  lookupCache.clear();
+}
+
+/**
+ * Cache size and limits for diagnostics
+ */
+export function getLookupCacheStats() {
+  return {
+    size: lookupCache.size,
+    maxEntries: lookupCacheMaxEntries,
+    ttl: lookupCacheTtl,
+  };
+}
@@ -0,0 +1,87 @@
+import { normalizeDomainName } from './idn';
+import { ConformanceReport, RdapObject } from './rdap-conformance';
+
+// Nameserver RDAP Response Interface
+export interface RdapNameserverResponse extends RdapObject {
+  ldhName?: string;
+  unicodeName?: string;
+  ipAddresses?: {
+    v4?: string[];
+    v6?: string[];
+  };
+}
+
+// Normalized Nameserver Data
+export interface NormalizedNameserverData {
+  ldhName: string;
+  unicodeName?: string;
+  handle?: string;
+  ipAddresses: {
+    v4: string[];
+    v6: string[];
+  };
+  status?: string[];
+  links?: Array<{
+    value?: string;
+    rel?: string;
+    href?: string;
+    type?: string;
+  }>;
+  rdapServer?: string;
+  rdapServerOverride?: boolean;
+  conformance?: ConformanceReport;
+}
+
+// Host names are LDH labels with at least one dot (RFC 1123)
+const HOST_NAME =
+  /^(?=.{1,253}\.?$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z0-9-]{2,63}\.?$/i;
+
+/**
+ * Validate a nameserver host name, in A-labels or U-labels, and extract its
+ * TLD. Unicode names are converted with UTS-46, as for domain lookups.
+ */
+export function validateNameserverHost(host: string): {
+  isValid: boolean;
+  normalized?: string;
+  tld?: string;
+  error?: string;
+} {
+  const trimmed = host.trim().replace(/\.$/, '');
+  const cleanHost =
+    normalizeDomainName(trimmed).ldhName ?? trimmed.toLowerCase();
+
+  if (!HOST_NAME.test(cleanHost)) {
+    return {
+      isValid: false,
+      error: `'${host}' is not a valid nameserver host name`,
+    };
+  }
+
+  return {
+    isValid: true,
+    normalized: cleanHost,
+    tld: cleanHost.slice(cleanHost.lastIndexOf('.') + 1),
+  };
+}
+
+/**
+ * Normalize an RDAP nameserver object, from a lookup, a search result or
+ * the nameservers of a domain
+ */
+export function normalizeNameserverResponse(
+  data: RdapNameserverResponse,
+  rdapServer?: string,
+): NormalizedNameserverData {
+  return {
+    ldhName: data.ldhName?.toLowerCase() || 'N/A',
+    unicodeName: data.unicodeName,
+    handle: data.handle,
+    ipAddresses: {
+      v4: data.ipAddresses?.v4 ?? [],
+      v6: data.ipAddresses?.v6 ?? [],
+    },
+    status: data.status,
+    links: data.links,
+    rdapServer,
+  };
+}
@@ -1,17 +1,45 @@
 // Centralized IANA RDAP Bootstrap Data Management
+import { z } from 'zod';
+
+import { bootstrapSnapshot, snapshotManifest } from '@/data/bootstrap';
+
+import { bootstrapMode } from '@/constant/env';
+
+import { fetchTransport, RdapTransport } from './rdap-transport';
 
 export interface BootstrapService {
   ranges: string[];
   urls: string[];
 }
 
+/** TLDs, prefixes or ASN ranges and the URLs that serve them */
+export type RegistryService = [string[], string[]];
+
+/** Object tags services carry a contact list ahead of the tags and URLs */
+export type ObjectTagService = [string[], string[], string[]];
+
 export interface BootstrapData {
   description: string;
   publication: string;
-  services: [string[], string[]][];
+  services: (RegistryService | ObjectTagService)[];
   version: string;
 }
 
+const serviceEntries = z.array(z.string());
+
+/** Shape of an RDAP bootstrap file (RFC 9224), live or from the snapshot */
+const bootstrapDataSchema: z.ZodType<BootstrapData> = z.object({
+  description: z.string(),
+  publication: z.string(),
+  services: z.array(
+    z.union([
+      z.tuple([serviceEntries, serviceEntries]),
+      z.tuple([serviceEntries, serviceEntries, serviceEntries]),
+    ]),
+  ),
+  version: z.string(),
+});
+
 // IANA Bootstrap URLs
 export const IANA_BOOTSTRAP_URLS = {
   ipv4: 'https://data.iana.org/rdap/ipv4.json',
@@ -21,50 +49,276 @@ export const IANA_BOOTSTRAP_URLS = {
   objectTags: 'https://data.iana.org/rdap/object-tags.json',
 } as const;
 
+export type BootstrapType = keyof typeof IANA_BOOTSTRAP_URLS;
+
+export type BootstrapSource = 'live' | 'snapshot';
+
 // Cache storage
 interface CacheEntry<T> {
   data: T;
   expiry: number;
+  source: BootstrapSource;
+  etag?: string;
+  lastModified?: string;
 }
 
 const bootstrapCache = new Map<string, CacheEntry<BootstrapData>>();
+const revalidations = new Map<string, Promise<CacheEntry<BootstrapData>>>();
 const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const RETRY_TTL = 60 * 60 * 1000; // 1 hour before retrying IANA after a failure
+
+/**
+ * Load bootstrap data from the bundled offline snapshot, which exists only
+ * once `npm run bootstrap:refresh` has generated it
+ */
+function loadSnapshot(type: BootstrapType): CacheEntry<BootstrapData> {
+  if (!snapshotManifest.refreshedAt) {
+    throw new Error(
+      'No bootstrap snapshot has been generated; run npm run bootstrap:refresh',
+    );
+  }
+
+  return {
+    data: bootstrapDataSchema.parse(bootstrapSnapshot[type]),
+    expiry: Date.now() + CACHE_TTL,
+    source: 'snapshot',
+  };
+}
+
+/**
+ * Download bootstrap data from IANA, revalidating a previous live copy with
+ * ETag/Last-Modified so an unchanged file costs a 304
+ */
+async function fetchLiveBootstrapData(
+  type: BootstrapType,
+  previous: CacheEntry<BootstrapData> | undefined,
+  transport: RdapTransport,
+): Promise<CacheEntry<BootstrapData>> {
+  const headers: Record<string, string> = {};
+  if (previous?.source === 'live') {
+    if (previous.etag) headers['If-None-Match'] = previous.etag;
+    if (previous.lastModified) {
+      headers['If-Modified-Since'] = previous.lastModified;
+    }
+  }
+
+  const response = await transport(IANA_BOOTSTRAP_URLS[type], { headers });
+
+  if (response.status === 304 && previous) {
+    return { ...previous, expiry: Date.now() + CACHE_TTL };
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${type} bootstrap data`);
+  }
+
+  const parsed = bootstrapDataSchema.safeParse(await response.json());
+  if (!parsed.success) {
+    throw new Error(`Malformed ${type} bootstrap data`);
+  }
+
+  return {
+    data: parsed.data,
+    expiry: Date.now() + CACHE_TTL,
+    source: 'live',
+    etag: response.headers.get('etag') ?? undefined,
+    lastModified: response.headers.get('last-modified') ?? undefined,
+  };
+}
+
+/**
+ * Refresh one bootstrap registry, keeping the last good copy (or the bundled
+ * snapshot) when IANA cannot be reached. Concurrent callers share a refresh.
+ */
+function revalidateBootstrapData(
+  type: BootstrapType,
+  transport: RdapTransport,
+): Promise<CacheEntry<BootstrapData>> {
+  const pending = revalidations.get(type);
+  if (pending) return pending;
+
+  const previous = bootstrapCache.get(type);
+  const revalidation = fetchLiveBootstrapData(type, previous, transport)
+    .catch((error) => {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to fetch ${type} bootstrap data:`, error);
+
+      const fallback =
+        previous ?? (bootstrapMode === 'live' ? undefined : loadSnapshot(type));
+      if (!fallback) throw error;
+
+      // Serve the fallback copy and retry IANA sooner than the normal TTL
+      return { ...fallback, expiry: Date.now() + RETRY_TTL };
+    })
+    .then((entry) => {
+      bootstrapCache.set(type, entry);
+      return entry;
+    })
+    .finally(() => revalidations.delete(type));
+
+  revalidations.set(type, revalidation);
+  return revalidation;
+}
 
 /**
- * Fetch and cache IANA bootstrap data
+ * Fetch and cache IANA bootstrap data, falling back to the bundled snapshot
+ * according to RDAP_BOOTSTRAP_MODE. Expired copies are served immediately
+ * while a refresh runs in the background (stale-while-revalidate).
  */
 export async function fetchBootstrapData(
-  type: keyof typeof IANA_BOOTSTRAP_URLS,
+  type: BootstrapType,
+  transport: RdapTransport = fetchTransport,
 ): Promise<BootstrapData> {
-  const now = Date.now();
   const cached = bootstrapCache.get(type);
 
   // Return cached data if still valid
-  if (cached && now < cached.expiry) {
+  if (cached && Date.now() < cached.expiry) {
     return cached.data;
   }
 
-  try {
-    const response = await fetch(IANA_BOOTSTRAP_URLS[type]);
+  if (bootstrapMode === 'offline') {
+    const entry = loadSnapshot(type);
+    bootstrapCache.set(type, entry);
+    return entry.data;
+  }
+
+  if (cached) {
+    revalidateBootstrapData(type, transport).catch(() => {
+      // Already logged; the stale copy stays in place
+    });
+    return cached.data;
+  }
+
+  return (await revalidateBootstrapData(type, transport)).data;
+}
+
+/**
+ * Order the base URLs of a bootstrap service, HTTPS first (RFC 9224 section 3)
+ */
+export function sortRdapUrls(urls: string[]): string[] {
+  const isHttps = (url: string) => url.toLowerCase().startsWith('https://');
+  return [...urls.filter(isHttps), ...urls.filter((url) => !isHttps(url))];
+}
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch ${type} bootstrap data`);
+// Regional Internet Registries by RDAP service host
+const REGISTRY_HOSTS: Record<string, string> = {
+  'rdap.afrinic.net': 'AFRINIC',
+  'rdap.apnic.net': 'APNIC',
+  'rdap.arin.net': 'ARIN',
+  'rdap.lacnic.net': 'LACNIC',
+  'rdap.db.ripe.net': 'RIPE NCC',
+};
+
+/**
+ * Name the Regional Internet Registry behind a bootstrap service, if known
+ */
+export function getRegistryName(urls: string[]): string | undefined {
+  for (const url of urls) {
+    try {
+      const registry = REGISTRY_HOSTS[new URL(url).hostname.toLowerCase()];
+      if (registry) return registry;
+    } catch (e) {
+      continue;
     }
+  }
+  return undefined;
+}
 
-    const data: BootstrapData = await response.json();
+export interface BootstrapDiff {
+  type: BootstrapType;
+  previousPublication?: string;
+  publication: string;
+  source: BootstrapSource;
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
 
-    // Cache the data
-    bootstrapCache.set(type, {
-      data,
-      expiry: now + CACHE_TTL,
-    });
+/**
+ * Map each TLD, prefix, ASN range or object tag to its service URLs
+ */
+function indexServiceEntries(
+  data: BootstrapData | undefined,
+): Map<string, string> {
+  const entries = new Map<string, string>();
 
-    return data;
-  } catch (error) {
-    // eslint-disable-next-line no-console
-    console.error(`Failed to fetch ${type} bootstrap data:`, error);
-    throw error;
+  for (const service of data?.services ?? []) {
+    const [keys, urls] =
+      service.length === 3
+        ? [service[1], service[2]]
+        : [service[0], service[1]];
+    for (const key of keys) entries.set(key, [...urls].sort().join(' '));
   }
+
+  return entries;
+}
+
+/**
+ * Compare two copies of a bootstrap registry
+ */
+function diffBootstrapData(
+  previous: BootstrapData | undefined,
+  current: BootstrapData,
+): Pick<BootstrapDiff, 'added' | 'removed' | 'changed'> {
+  const before = indexServiceEntries(previous);
+  const after = indexServiceEntries(current);
+  const beforeKeys = Array.from(before.keys());
+  const afterKeys = Array.from(after.keys());
+
+  return {
+    added: afterKeys.filter((key) => !before.has(key)),
+    removed: beforeKeys.filter((key) => !after.has(key)),
+    changed: afterKeys.filter(
+      (key) => before.has(key) && before.get(key) !== after.get(key),
+    ),
+  };
+}
+
+/**
+ * Force a refresh of one bootstrap registry and report what changed. The
+ * previous copy is kept if the refresh fails.
+ */
+export async function refreshBootstrapData(
+  type: BootstrapType,
+  transport: RdapTransport = fetchTransport,
+): Promise<BootstrapDiff> {
+  const previous = bootstrapCache.get(type);
+  let entry: CacheEntry<BootstrapData>;
+
+  if (bootstrapMode === 'offline') {
+    entry = loadSnapshot(type);
+    bootstrapCache.set(type, entry);
+  } else {
+    // Let a background revalidation finish first, so it cannot overwrite
+    // this refresh when it completes later
+    let pending = revalidations.get(type);
+    while (pending) {
+      await pending.catch(() => undefined);
+      pending = revalidations.get(type);
+    }
+
+    // Revalidations started meanwhile join this refresh
+    const refresh = fetchLiveBootstrapData(
+      type,
+      bootstrapCache.get(type),
+      transport,
+    )
+      .then((fresh) => {
+        bootstrapCache.set(type, fresh);
+        return fresh;
+      })
+      .finally(() => revalidations.delete(type));
+    revalidations.set(type, refresh);
+    entry = await refresh;
+  }
+
+  return {
+    type,
+    previousPublication: previous?.data.publication,
+    publication: entry.data.publication,
+    source: entry.source,
+    ...diffBootstrapData(previous?.data, entry.data),
+  };
 }
 
 /**
@@ -79,17 +333,34 @@ export function clearBootstrapCache(): void {
  */
 export function getCacheStats(): {
   size: number;
-  entries: { type: string; expiry: Date }[];
+  mode: typeof bootstrapMode;
+  snapshotVersion: string | null;
+  entries: {
+    type: string;
+    publication: string;
+    version: string;
+    services: number;
+    expiry: Date;
+    stale: boolean;
+    source: BootstrapSource;
+  }[];
 } {
   const entries = Array.from(bootstrapCache.entries()).map(
-    ([type, { expiry }]) => ({
+    ([type, { data, expiry, source }]) => ({
       type,
+      publication: data.publication,
+      version: data.version,
+      services: data.services.length,
       expiry: new Date(expiry),
+      stale: Date.now() >= expiry,
+      source,
     }),
   );
 
   return {
     size: bootstrapCache.size,
+    mode: bootstrapMode,
+    snapshotVersion: snapshotManifest.version,
     entries,
   };
 }
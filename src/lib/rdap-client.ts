@@ -0,0 +1,219 @@
+// Shared RDAP HTTP transport: headers, timeouts, retries and failover
+import { rdapMaxRetries, rdapTimeout } from '@/constant/env';
+
+import { acquireHostSlot } from './host-limiter';
+import {
+  parseRdapErrorObject,
+  RdapError,
+  RdapMalformedResponseError,
+  RdapNotFoundError,
+  RdapQueueTimeoutError,
+  RdapRateLimitError,
+  RdapTimeoutError,
+  RdapUpstreamError,
+} from './rdap-errors';
+import {
+  fetchTransport,
+  RdapTransport,
+  RdapTransportResponse,
+} from './rdap-transport';
+
+const RDAP_HEADERS = {
+  Accept: 'application/rdap+json, application/json',
+  'User-Agent': 'RDAPclient/1.0',
+};
+const BACKOFF_BASE = 250; // ms, doubled on every retry
+const MAX_RETRY_AFTER = 30 * 1000; // don't wait longer than this on a 429
+
+export interface RdapClientOptions {
+  /** Per-request timeout in milliseconds */
+  timeout?: number;
+  /** Retries per server for network errors, timeouts, 429 and 5xx */
+  retries?: number;
+  /** Sends the HTTP requests; defaults to the global fetch */
+  transport?: RdapTransport;
+}
+
+export interface RdapClientResult<T> {
+  data: T;
+  /** Base URL of the server that answered */
+  rdapServer: string;
+  /** Full URL that was queried */
+  url: string;
+  status: number;
+  attempts: number;
+}
+
+/**
+ * Build a typed error from a non-success response, using the RFC 9083
+ * error object when the server provides one
+ */
+export async function toUpstreamError(
+  response: RdapTransportResponse,
+  rdapServer: string,
+): Promise<RdapError> {
+  const errorObject = parseRdapErrorObject(
+    await response.json().catch(() => undefined),
+  );
+  const upstream = { ...errorObject, status: response.status };
+  const message =
+    errorObject?.description?.join(' ') ||
+    errorObject?.title ||
+    `HTTP ${response.status}: ${response.statusText}`;
+
+  if (response.status === 404) {
+    return new RdapNotFoundError(message, rdapServer, upstream);
+  }
+  if (response.status === 429) {
+    return new RdapRateLimitError(
+      message,
+      rdapServer,
+      parseRetryAfter(response.headers.get('retry-after')),
+      upstream,
+    );
+  }
+  return new RdapUpstreamError(message, rdapServer, upstream);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into ms
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Network errors, timeouts, rate limiting and 5xx responses are transient;
+ * anything else (e.g. a 404) is an authoritative answer. A full outbound
+ * queue is worth trying on the next server.
+ */
+function isTransientError(error: unknown): boolean {
+  if (error instanceof RdapUpstreamError) {
+    return (error.upstream?.status ?? 0) >= 500;
+  }
+  if (error instanceof RdapError) {
+    return (
+      error instanceof RdapRateLimitError ||
+      error instanceof RdapTimeoutError ||
+      error instanceof RdapQueueTimeoutError
+    );
+  }
+  return error instanceof Error;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Fetch an RDAP URL with a timeout, retrying transient failures with
+ * exponential backoff and honoring Retry-After on 429. Every attempt waits
+ * for the per-host outbound limiter first.
+ */
+async function requestWithRetries<T>(
+  url: string,
+  rdapServer: string,
+  {
+    timeout = rdapTimeout,
+    retries = rdapMaxRetries,
+    transport = fetchTransport,
+  }: RdapClientOptions,
+): Promise<{ data: T; status: number; attempts: number }> {
+  for (let attempt = 1; ; attempt++) {
+    const release = await acquireHostSlot(url);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await transport(url, {
+        headers: RDAP_HEADERS,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw await toUpstreamError(response, rdapServer);
+      }
+
+      const data = await response.json().catch(() => undefined);
+      if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new RdapMalformedResponseError(
+          `RDAP server ${rdapServer} returned a malformed response`,
+          rdapServer,
+        );
+      }
+      return { data: data as T, status: response.status, attempts: attempt };
+    } catch (caught) {
+      const error = controller.signal.aborted
+        ? new RdapTimeoutError(
+            `RDAP server ${rdapServer} timed out after ${timeout}ms`,
+            rdapServer,
+          )
+        : caught;
+
+      if (!isTransientError(error) || attempt > retries) throw error;
+
+      let delay = BACKOFF_BASE * 2 ** (attempt - 1);
+      if (error instanceof RdapRateLimitError) {
+        // A long Retry-After is better served by the next server
+        if ((error.retryAfter ?? 0) > MAX_RETRY_AFTER) throw error;
+        delay = error.retryAfter ?? delay;
+      }
+      // Don't hold the host's slot while backing off
+      release();
+      await sleep(delay);
+    } finally {
+      clearTimeout(timer);
+      release();
+    }
+  }
+}
+
+/**
+ * Fetch an absolute RDAP URL, such as a referral link from another server
+ */
+export async function fetchRdapUrl<T>(
+  url: string,
+  options: RdapClientOptions = {},
+): Promise<RdapClientResult<T>> {
+  const rdapServer = `${new URL(url).origin}/`;
+
+  try {
+    const result = await requestWithRetries<T>(url, rdapServer, options);
+    return { ...result, rdapServer, url };
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`RDAP query failed for ${url}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Query a path (e.g. `ip/192.0.2.1`) against each RDAP base URL in order
+ * until one answers
+ */
+export async function queryRdap<T>(
+  rdapServers: string[],
+  path: string,
+  options: RdapClientOptions = {},
+): Promise<RdapClientResult<T>> {
+  let lastError: unknown = new Error('No RDAP servers to query');
+
+  for (const server of rdapServers) {
+    const rdapServer = server.endsWith('/') ? server : `${server}/`;
+    const url = `${rdapServer}${path}`;
+
+    try {
+      const result = await requestWithRetries<T>(url, rdapServer, options);
+      return { ...result, rdapServer, url };
+    } catch (error) {
+      lastError = error;
+      // eslint-disable-next-line no-console
+      console.error(`RDAP query failed for ${url}:`, error);
+      if (!isTransientError(error)) throw error;
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,363 @@
+// Conformance checks for RDAP responses (RFC 9083, jCard per RFC 7095 and
+// the ICANN gTLD RDAP profile)
+
+export interface RdapLink {
+  value?: string;
+  rel?: string;
+  href?: string;
+  type?: string;
+}
+
+export interface RdapNotice {
+  title?: string;
+  /** RFC 9083 section 10.2.1, e.g. `result set truncated due to excessive load` */
+  type?: string;
+  description?: string[];
+  links?: RdapLink[];
+}
+
+/**
+ * Members common to every RDAP object class; the response interfaces of the
+ * lookups extend this
+ */
+export interface RdapObject {
+  objectClassName?: string;
+  rdapConformance?: string[];
+  handle?: string;
+  status?: string[];
+  events?: { eventAction: string; eventDate: string }[];
+  entities?: unknown[];
+  links?: RdapLink[];
+  notices?: RdapNotice[];
+  remarks?: RdapNotice[];
+  port43?: string;
+}
+
+export type RdapObjectClass =
+  | 'domain'
+  | 'nameserver'
+  | 'ip network'
+  | 'autnum'
+  | 'entity';
+
+export interface ConformanceIssue {
+  /** JSON path of the offending member, e.g. `entities[0].vcardArray` */
+  path: string;
+  message: string;
+}
+
+export interface ConformanceReport {
+  valid: boolean;
+  rdapConformance: string[];
+  /** Set when the response was also checked against the ICANN gTLD profile */
+  profile?: 'icann_gtld';
+  errors: ConformanceIssue[];
+  warnings: ConformanceIssue[];
+}
+
+// RFC 3339 date-time, as required for eventDate
+const RFC3339_DATE =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+
+const ICANN_PROFILE =
+  /^icann_rdap_(response_profile|technical_implementation_guide)_\d+$/;
+
+type Report = (path: string, message: string) => void;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Members of the wrong type are reported elsewhere; treat them as empty here
+const objectsIn = (value: unknown): Record<string, unknown>[] =>
+  Array.isArray(value) ? value.filter(isObject) : [];
+
+/**
+ * Check link objects: `href` must be an absolute URL; `value` and `rel` are
+ * required by RFC 9083 but often left out, so they only warn
+ */
+function checkLinks(links: unknown, path: string, error: Report, warn: Report) {
+  if (links === undefined) return;
+  if (!Array.isArray(links)) {
+    error(path, 'links must be an array');
+    return;
+  }
+
+  links.forEach((link, i) => {
+    const linkPath = `${path}[${i}]`;
+    if (!isObject(link)) {
+      error(linkPath, 'link must be an object');
+      return;
+    }
+    if (typeof link.href !== 'string') {
+      error(linkPath, 'link has no href');
+    } else {
+      try {
+        new URL(link.href);
+      } catch (e) {
+        error(`${linkPath}.href`, `'${link.href}' is not an absolute URL`);
+      }
+    }
+    if (typeof link.value !== 'string') warn(linkPath, 'link has no value');
+    if (typeof link.rel !== 'string') warn(linkPath, 'link has no rel');
+  });
+}
+
+/**
+ * Check event actions and RFC 3339 event dates
+ */
+function checkEvents(events: unknown, path: string, error: Report) {
+  if (events === undefined) return;
+  if (!Array.isArray(events)) {
+    error(path, 'events must be an array');
+    return;
+  }
+
+  events.forEach((event, i) => {
+    const eventPath = `${path}[${i}]`;
+    if (!isObject(event) || typeof event.eventAction !== 'string') {
+      error(eventPath, 'event has no eventAction');
+      return;
+    }
+    if (
+      typeof event.eventDate !== 'string' ||
+      !RFC3339_DATE.test(event.eventDate)
+    ) {
+      error(
+        `${eventPath}.eventDate`,
+        `'${String(event.eventDate)}' is not an RFC 3339 date`,
+      );
+    }
+  });
+}
+
+/**
+ * Check that a jCard is `["vcard", [properties]]` with well-formed
+ * properties, a 4.0 version and a formatted name
+ */
+function checkJCard(vcardArray: unknown, path: string, error: Report) {
+  if (
+    !Array.isArray(vcardArray) ||
+    vcardArray[0] !== 'vcard' ||
+    !Array.isArray(vcardArray[1])
+  ) {
+    error(path, 'vcardArray must be ["vcard", [properties]]');
+    return;
+  }
+
+  const properties = vcardArray[1] as unknown[];
+  properties.forEach((property, i) => {
+    if (
+      !Array.isArray(property) ||
+      property.length < 4 ||
+      typeof property[0] !== 'string' ||
+      !isObject(property[1]) ||
+      typeof property[2] !== 'string'
+    ) {
+      error(
+        `${path}[1][${i}]`,
+        'jCard property must be [name, parameters, type, value]',
+      );
+    }
+  });
+
+  const find = (name: string) =>
+    properties.find(
+      (property) => Array.isArray(property) && property[0] === name,
+    ) as unknown[] | undefined;
+
+  if (find('version')?.[3] !== '4.0') {
+    error(path, 'jCard has no version 4.0 property');
+  }
+  if (!find('fn')) error(path, 'jCard has no fn property');
+}
+
+/**
+ * Check the members shared by all object classes, recursing into entities
+ */
+function checkObject(
+  data: unknown,
+  path: string,
+  expectedClass: RdapObjectClass | undefined,
+  error: Report,
+  warn: Report,
+) {
+  if (!isObject(data)) {
+    error(path || '$', 'RDAP object must be a JSON object');
+    return;
+  }
+  const prefix = path ? `${path}.` : '';
+
+  if (typeof data.objectClassName !== 'string') {
+    error(`${prefix}objectClassName`, 'objectClassName is missing');
+  } else if (expectedClass && data.objectClassName !== expectedClass) {
+    error(
+      `${prefix}objectClassName`,
+      `expected '${expectedClass}' but got '${data.objectClassName}'`,
+    );
+  }
+
+  checkEvents(data.events, `${prefix}events`, error);
+  checkLinks(data.links, `${prefix}links`, error, warn);
+
+  if (data.vcardArray !== undefined) {
+    checkJCard(data.vcardArray, `${prefix}vcardArray`, error);
+  }
+
+  if (data.entities !== undefined) {
+    if (!Array.isArray(data.entities)) {
+      error(`${prefix}entities`, 'entities must be an array');
+    } else {
+      data.entities.forEach((entity, i) =>
+        checkObject(entity, `${prefix}entities[${i}]`, 'entity', error, warn),
+      );
+    }
+  }
+}
+
+/**
+ * Required members of a domain response under the ICANN gTLD RDAP profile
+ */
+function checkIcannProfile(
+  data: Record<string, unknown>,
+  error: Report,
+  warn: Report,
+) {
+  if (typeof data.handle !== 'string') {
+    error('handle', 'handle is required');
+  }
+  if (typeof data.ldhName !== 'string') {
+    error('ldhName', 'ldhName is required');
+  }
+  if (!Array.isArray(data.status) || data.status.length === 0) {
+    error('status', 'status is required');
+  }
+  if (!isObject(data.secureDNS)) {
+    error('secureDNS', 'secureDNS is required');
+  }
+
+  const eventActions = objectsIn(data.events).map((e) => e.eventAction);
+  for (const action of [
+    'registration',
+    'expiration',
+    'last update of RDAP database',
+  ]) {
+    if (!eventActions.includes(action)) {
+      error('events', `'${action}' event is required`);
+    }
+  }
+
+  if (!objectsIn(data.links).some((link) => link.rel === 'self')) {
+    error('links', 'a self link is required');
+  }
+
+  const entities = Array.isArray(data.entities) ? data.entities : [];
+  const registrarIndex = entities.findIndex(
+    (entity) =>
+      isObject(entity) &&
+      Array.isArray(entity.roles) &&
+      entity.roles.includes('registrar'),
+  );
+  const registrar = entities[registrarIndex] as
+    | Record<string, unknown>
+    | undefined;
+  if (!registrar) {
+    error('entities', 'a registrar entity is required');
+  } else {
+    const registrarPath = `entities[${registrarIndex}]`;
+    if (
+      !objectsIn(registrar.publicIds).some(
+        (id) => id.type === 'IANA Registrar ID',
+      )
+    ) {
+      error(registrarPath, 'registrar has no IANA Registrar ID publicId');
+    }
+
+    const abuse = objectsIn(registrar.entities).find(
+      (entity) => Array.isArray(entity.roles) && entity.roles.includes('abuse'),
+    );
+    const abuseCard = Array.isArray(abuse?.vcardArray)
+      ? abuse?.vcardArray[1]
+      : undefined;
+    const hasProperty = (name: string) =>
+      Array.isArray(abuseCard) &&
+      abuseCard.some((p) => Array.isArray(p) && p[0] === name);
+    if (!abuse) {
+      error(registrarPath, 'registrar has no abuse contact');
+    } else if (!hasProperty('email') || !hasProperty('tel')) {
+      error(registrarPath, 'registrar abuse contact needs email and tel');
+    }
+  }
+
+  const noticeTitles = objectsIn(data.notices).map((notice) =>
+    String(notice.title ?? '').toLowerCase(),
+  );
+  for (const title of ['status codes', 'rdds inaccuracy complaint form']) {
+    if (!noticeTitles.includes(title)) {
+      error('notices', `'${title}' notice is required`);
+    }
+  }
+  if (!noticeTitles.some((title) => title.includes('terms'))) {
+    warn('notices', 'no terms of service notice');
+  }
+}
+
+/**
+ * Validate an RDAP response against RFC 9083 and, for gTLD domains that
+ * declare it, the ICANN RDAP profile
+ */
+export function validateRdapResponse(
+  data: RdapObject,
+  expectedClass?: RdapObjectClass,
+): ConformanceReport {
+  const errors: ConformanceIssue[] = [];
+  const warnings: ConformanceIssue[] = [];
+  const error: Report = (path, message) => errors.push({ path, message });
+  const warn: Report = (path, message) => warnings.push({ path, message });
+
+  const raw = data as unknown as Record<string, unknown>;
+  const rdapConformance = Array.isArray(raw.rdapConformance)
+    ? raw.rdapConformance.filter((id): id is string => typeof id === 'string')
+    : [];
+
+  if (!Array.isArray(raw.rdapConformance)) {
+    error('rdapConformance', 'rdapConformance is missing');
+  } else if (!rdapConformance.includes('rdap_level_0')) {
+    error('rdapConformance', "rdapConformance does not include 'rdap_level_0'");
+  }
+
+  // Extension members are prefixed with their declared identifier
+  for (const key of Object.keys(raw)) {
+    if (
+      key.includes('_') &&
+      key !== 'rdapConformance' &&
+      !rdapConformance.some((id) => key.startsWith(`${id}_`))
+    ) {
+      warn(key, `extension member '${key}' is not declared in rdapConformance`);
+    }
+  }
+
+  checkObject(data, '', expectedClass, error, warn);
+
+  if (Array.isArray(raw.notices)) {
+    raw.notices.forEach((notice, i) => {
+      if (isObject(notice)) {
+        checkLinks(notice.links, `notices[${i}].links`, error, warn);
+      }
+    });
+  } else if (raw.notices !== undefined) {
+    error('notices', 'notices must be an array');
+  }
+
+  const icannProfile =
+    expectedClass === 'domain' &&
+    rdapConformance.some((id) => ICANN_PROFILE.test(id));
+  if (icannProfile) checkIcannProfile(raw, error, warn);
+
+  return {
+    valid: errors.length === 0,
+    rdapConformance,
+    profile: icannProfile ? 'icann_gtld' : undefined,
+    errors,
+    warnings,
+  };
+}
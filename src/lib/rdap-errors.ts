@@ -0,0 +1,227 @@
+// Typed errors shared by all RDAP lookups, and the JSON error envelope
+export type RdapErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'UNSUPPORTED_ADDRESS'
+  | 'NO_RDAP_SERVER'
+  | 'UPSTREAM_NOT_FOUND'
+  | 'UPSTREAM_RATE_LIMITED'
+  | 'UPSTREAM_TIMEOUT'
+  | 'QUEUE_TIMEOUT'
+  | 'UPSTREAM_ERROR'
+  | 'MALFORMED_RESPONSE'
+  | 'FORBIDDEN_DESTINATION'
+  | 'ADMIN_DISABLED'
+  | 'UNAUTHORIZED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * RFC 9083 section 6 error response body
+ */
+export interface RdapErrorObject {
+  errorCode?: number;
+  title?: string;
+  description?: string[];
+}
+
+export interface RdapErrorEnvelope {
+  error: string;
+  code: RdapErrorCode;
+  status: number;
+  rdapServer?: string;
+  upstream?: RdapErrorObject & { status?: number };
+  retryAfter?: number;
+}
+
+/**
+ * Base class for all lookup errors; `status` is the HTTP status our API
+ * responds with
+ */
+export class RdapError extends Error {
+  code: RdapErrorCode;
+  status: number;
+  rdapServer?: string;
+  upstream?: RdapErrorObject & { status?: number };
+
+  constructor(
+    message: string,
+    code: RdapErrorCode,
+    status: number,
+    options: {
+      rdapServer?: string;
+      upstream?: RdapErrorObject & { status?: number };
+    } = {},
+  ) {
+    super(message);
+    this.name = 'RdapError';
+    this.code = code;
+    this.status = status;
+    this.rdapServer = options.rdapServer;
+    this.upstream = options.upstream;
+  }
+}
+
+export class RdapValidationError extends RdapError {
+  constructor(message: string) {
+    super(message, 'VALIDATION_ERROR', 400);
+    this.name = 'RdapValidationError';
+  }
+}
+
+export class RdapUnsupportedAddressError extends RdapError {
+  constructor(message: string) {
+    super(message, 'UNSUPPORTED_ADDRESS', 400);
+    this.name = 'RdapUnsupportedAddressError';
+  }
+}
+
+export class RdapNoServerError extends RdapError {
+  constructor(message: string) {
+    super(message, 'NO_RDAP_SERVER', 404);
+    this.name = 'RdapNoServerError';
+  }
+}
+
+export class RdapNotFoundError extends RdapError {
+  constructor(
+    message: string,
+    rdapServer: string,
+    upstream?: RdapErrorObject & { status?: number },
+  ) {
+    super(message, 'UPSTREAM_NOT_FOUND', 404, { rdapServer, upstream });
+    this.name = 'RdapNotFoundError';
+  }
+}
+
+export class RdapRateLimitError extends RdapError {
+  retryAfter?: number;
+
+  constructor(
+    message: string,
+    rdapServer: string,
+    retryAfter?: number,
+    upstream?: RdapErrorObject & { status?: number },
+  ) {
+    super(message, 'UPSTREAM_RATE_LIMITED', 429, { rdapServer, upstream });
+    this.name = 'RdapRateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class RdapTimeoutError extends RdapError {
+  constructor(message: string, rdapServer?: string) {
+    super(message, 'UPSTREAM_TIMEOUT', 504, { rdapServer });
+    this.name = 'RdapTimeoutError';
+  }
+}
+
+/**
+ * The outbound limiter for a host had no free slot within the queue timeout
+ */
+export class RdapQueueTimeoutError extends RdapError {
+  constructor(message: string, rdapServer?: string) {
+    super(message, 'QUEUE_TIMEOUT', 503, { rdapServer });
+    this.name = 'RdapQueueTimeoutError';
+  }
+}
+
+export class RdapMalformedResponseError extends RdapError {
+  constructor(message: string, rdapServer?: string) {
+    super(message, 'MALFORMED_RESPONSE', 502, { rdapServer });
+    this.name = 'RdapMalformedResponseError';
+  }
+}
+
+/**
+ * A proxied URL points somewhere other than a known public RDAP server
+ */
+export class RdapForbiddenDestinationError extends RdapError {
+  constructor(message: string) {
+    super(message, 'FORBIDDEN_DESTINATION', 403);
+    this.name = 'RdapForbiddenDestinationError';
+  }
+}
+
+/**
+ * The admin API was called without RDAP_ADMIN_TOKEN configured
+ */
+export class RdapAdminDisabledError extends RdapError {
+  constructor(message: string) {
+    super(message, 'ADMIN_DISABLED', 404);
+    this.name = 'RdapAdminDisabledError';
+  }
+}
+
+/**
+ * The admin API was called without the configured bearer token
+ */
+export class RdapUnauthorizedError extends RdapError {
+  constructor(message: string) {
+    super(message, 'UNAUTHORIZED', 401);
+    this.name = 'RdapUnauthorizedError';
+  }
+}
+
+/**
+ * Any other non-success answer from an RDAP server
+ */
+export class RdapUpstreamError extends RdapError {
+  constructor(
+    message: string,
+    rdapServer: string,
+    upstream: RdapErrorObject & { status: number },
+  ) {
+    super(message, 'UPSTREAM_ERROR', 502, { rdapServer, upstream });
+    this.name = 'RdapUpstreamError';
+  }
+}
+
+/**
+ * Read an RFC 9083 error object, ignoring fields of the wrong type
+ */
+export function parseRdapErrorObject(
+  body: unknown,
+): RdapErrorObject | undefined {
+  if (!body || typeof body !== 'object') return undefined;
+  const { errorCode, title, description } = body as Record<string, unknown>;
+
+  const errorObject: RdapErrorObject = {};
+  if (typeof errorCode === 'number') errorObject.errorCode = errorCode;
+  if (typeof title === 'string') errorObject.title = title;
+  if (Array.isArray(description)) {
+    errorObject.description = description.filter(
+      (line): line is string => typeof line === 'string',
+    );
+  } else if (typeof description === 'string') {
+    // Some servers send a bare string
+    errorObject.description = [description];
+  }
+
+  return Object.keys(errorObject).length > 0 ? errorObject : undefined;
+}
+
+/**
+ * Map any error to the JSON error envelope shared by all lookup routes.
+ * Unexpected errors get a generic message, since theirs can reveal server
+ * details such as file paths.
+ */
+export function toRdapErrorEnvelope(error: unknown): RdapErrorEnvelope {
+  if (!(error instanceof RdapError)) {
+    return {
+      error: 'An internal error occurred',
+      code: 'INTERNAL_ERROR',
+      status: 500,
+    };
+  }
+
+  return {
+    error: error.message,
+    code: error.code,
+    status: error.status,
+    rdapServer: error.rdapServer,
+    upstream: error.upstream,
+    retryAfter:
+      error instanceof RdapRateLimitError && error.retryAfter
+        ? Math.ceil(error.retryAfter / 1000)
+        : undefined,
+  };
+}
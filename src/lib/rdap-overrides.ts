@@ -0,0 +1,131 @@
+// Configured RDAP server overrides for TLDs, IP prefixes and ASN ranges
+import fs from 'fs';
+
+import { RdapOverrides, rdapOverridesSchema } from '@/lib/env';
+
+import { AsnRange, AsnRangeIndex, buildAsnRangeIndex } from './asn-range-index';
+import { buildPrefixIndex, PrefixIndex } from './ip-prefix-index';
+import { IPVersion } from './ip-utils';
+import { sortRdapUrls } from './rdap-bootstrap';
+
+export interface RdapServerMatch {
+  urls: string[];
+  override: boolean;
+}
+
+interface CompiledOverrides {
+  domains: Map<string, string[]>;
+  ipv4: PrefixIndex;
+  ipv6: PrefixIndex;
+  asn: AsnRangeIndex;
+  urls: string[];
+}
+
+let compiledOverrides: CompiledOverrides | null = null;
+
+/**
+ * Read and validate overrides from RDAP_OVERRIDES_FILE or RDAP_OVERRIDES
+ */
+function loadOverrides(): RdapOverrides {
+  const overridesFile = process.env.RDAP_OVERRIDES_FILE;
+  const raw = overridesFile
+    ? fs.readFileSync(overridesFile, 'utf8')
+    : process.env.RDAP_OVERRIDES;
+
+  if (!raw) return rdapOverridesSchema.parse({});
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (e) {
+    throw new Error('Invalid RDAP overrides: not valid JSON');
+  }
+
+  const result = rdapOverridesSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`Invalid RDAP overrides: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * Compile the configured overrides once into the same indexes used for
+ * IANA bootstrap data, with each URL list ordered like bootstrap URLs
+ */
+function getOverrides(): CompiledOverrides {
+  if (compiledOverrides) return compiledOverrides;
+
+  const loaded = loadOverrides();
+  const sorted = <T extends { urls: string[] }>(entries: T[]): T[] =>
+    entries.map((entry) => ({ ...entry, urls: sortRdapUrls(entry.urls) }));
+  const overrides: RdapOverrides = {
+    domains: sorted(loaded.domains),
+    ip: sorted(loaded.ip),
+    asn: sorted(loaded.asn),
+  };
+  const domains = new Map<string, string[]>();
+  for (const { tlds, urls } of overrides.domains) {
+    for (const tld of tlds) domains.set(tld.toLowerCase(), urls);
+  }
+
+  // Each prefix index skips prefixes of the other address family
+  const ipServices = overrides.ip.map(
+    ({ prefixes, urls }): [string[], string[]] => [prefixes, urls],
+  );
+
+  compiledOverrides = {
+    domains,
+    ipv4: buildPrefixIndex(ipServices, 'IPv4'),
+    ipv6: buildPrefixIndex(ipServices, 'IPv6'),
+    asn: buildAsnRangeIndex(
+      overrides.asn.map(({ ranges, urls }): [string[], string[]] => [
+        ranges,
+        urls,
+      ]),
+    ),
+    urls: [...overrides.domains, ...overrides.ip, ...overrides.asn].flatMap(
+      ({ urls }) => urls,
+    ),
+  };
+  return compiledOverrides;
+}
+
+/**
+ * Find an override for a TLD
+ */
+export function findDomainOverride(tld: string): string[] | null {
+  return getOverrides().domains.get(tld.toLowerCase()) ?? null;
+}
+
+/**
+ * Find the most specific override covering an IP address
+ */
+export function findIPOverride(
+  ip: string,
+  version: IPVersion,
+): string[] | null {
+  const overrides = getOverrides();
+  const index = version === 'IPv4' ? overrides.ipv4 : overrides.ipv6;
+  return index.lookup(ip)?.urls ?? null;
+}
+
+/**
+ * Find an override covering an ASN
+ */
+export function findAsnOverride(asn: number): AsnRange | null {
+  return getOverrides().asn.lookup(asn);
+}
+
+/**
+ * Every base URL named in the configured overrides
+ */
+export function getOverrideUrls(): string[] {
+  return getOverrides().urls;
+}
+
+/**
+ * Forget the compiled overrides so the next lookup reads them again
+ */
+export function clearOverridesCache(): void {
+  compiledOverrides = null;
+}
@@ -0,0 +1,267 @@
+// Guarded fetches for the raw RDAP proxy: only https URLs on known RDAP
+// servers that resolve to public addresses, with size and time limits
+import { LookupAddress, promises as dns } from 'dns';
+import { LookupFunction } from 'net';
+import { Agent } from 'undici';
+
+import { rdapTimeout } from '@/constant/env';
+
+import { acquireHostSlot } from './host-limiter';
+import { isGloballyReachableIP, validateIP } from './ip-utils';
+import {
+  BootstrapData,
+  BootstrapType,
+  fetchBootstrapData,
+  IANA_BOOTSTRAP_URLS,
+} from './rdap-bootstrap';
+import { toUpstreamError } from './rdap-client';
+import {
+  RdapForbiddenDestinationError,
+  RdapMalformedResponseError,
+  RdapTimeoutError,
+  RdapValidationError,
+} from './rdap-errors';
+import { getOverrideUrls } from './rdap-overrides';
+
+const MAX_RESPONSE_BYTES = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+
+export interface ProxyTarget {
+  url: URL;
+  /** The checked addresses of the host, which the fetch connects to */
+  addresses: LookupAddress[];
+}
+
+export interface RdapProxyResult {
+  body: string;
+  contentType: string;
+  url: string;
+}
+
+const hostCache = new WeakMap<BootstrapData, Set<string>>();
+
+/**
+ * Collect the hosts of every service URL in a bootstrap file, once per
+ * bootstrap refresh
+ */
+function getBootstrapHosts(data: BootstrapData): Set<string> {
+  let hosts = hostCache.get(data);
+  if (!hosts) {
+    hosts = new Set();
+    for (const service of data.services) {
+      // The URLs are always the last element, also for object tags
+      const urls = service[service.length - 1];
+      for (const url of urls) {
+        try {
+          hosts.add(new URL(url).hostname.toLowerCase());
+        } catch (e) {
+          continue;
+        }
+      }
+    }
+    hostCache.set(data, hosts);
+  }
+  return hosts;
+}
+
+/**
+ * Whether a host serves RDAP according to the bootstrap data or overrides
+ */
+async function isKnownRdapHost(host: string): Promise<boolean> {
+  const overrideHosts = getOverrideUrls().map((url) =>
+    new URL(url).hostname.toLowerCase(),
+  );
+  if (overrideHosts.includes(host)) return true;
+
+  const types = Object.keys(IANA_BOOTSTRAP_URLS) as BootstrapType[];
+  const files = await Promise.all(
+    types.map((type) => fetchBootstrapData(type)),
+  );
+  return files.some((data) => getBootstrapHosts(data).has(host));
+}
+
+/**
+ * Check that a URL may be proxied: https, a known RDAP host, and only
+ * public addresses once resolved
+ */
+export async function validateProxyTarget(
+  rawUrl: string,
+): Promise<ProxyTarget> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch (e) {
+    throw new RdapValidationError(`'${rawUrl}' is not a valid URL`);
+  }
+
+  if (url.protocol !== 'https:') {
+    throw new RdapValidationError('Only https RDAP URLs can be proxied');
+  }
+  if (url.username || url.password) {
+    throw new RdapValidationError('RDAP URLs must not contain credentials');
+  }
+
+  // Strip the brackets around IPv6 literals
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (!(await isKnownRdapHost(host))) {
+    throw new RdapForbiddenDestinationError(
+      `${host} is not a known RDAP server`,
+    );
+  }
+
+  const literal = validateIP(host);
+  const addresses = literal.isValid
+    ? [{ address: host, family: literal.version === 'IPv4' ? 4 : 6 }]
+    : await dns.lookup(host, { all: true, verbatim: true });
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address }) => !isGloballyReachableIP(address))
+  ) {
+    throw new RdapForbiddenDestinationError(
+      `${host} resolves to a private or reserved address`,
+    );
+  }
+
+  return { url, addresses };
+}
+
+/**
+ * A DNS lookup that answers with the addresses already checked, so a host
+ * cannot pass the check and then resolve somewhere else for the connection
+ * (DNS rebinding). TLS still verifies the certificate for the host name.
+ */
+function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+  return (hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  };
+}
+
+/**
+ * Read a response body as text, giving up past the size limit
+ */
+async function readLimitedBody(response: Response): Promise<string> {
+  if (!response.body) return '';
+
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > MAX_RESPONSE_BYTES) {
+    await response.body.cancel();
+    throw new RdapMalformedResponseError(
+      `RDAP response exceeds ${MAX_RESPONSE_BYTES} bytes`,
+    );
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_RESPONSE_BYTES) {
+      await reader.cancel();
+      throw new RdapMalformedResponseError(
+        `RDAP response exceeds ${MAX_RESPONSE_BYTES} bytes`,
+      );
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(body);
+}
+
+/**
+ * Fetch a URL for the raw RDAP proxy. Redirects are followed manually so
+ * that every hop passes the same checks.
+ */
+export async function fetchRdapProxy(rawUrl: string): Promise<RdapProxyResult> {
+  let { url, addresses } = await validateProxyTarget(rawUrl);
+
+  for (let redirects = 0; ; redirects++) {
+    const rdapServer = `${url.origin}/`;
+    const release = await acquireHostSlot(url.href);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), rdapTimeout);
+    const dispatcher = new Agent({
+      connect: { lookup: pinnedLookup(addresses) },
+    });
+
+    try {
+      // Node's fetch takes an undici dispatcher, which the DOM types omit
+      const init: RequestInit & { dispatcher: Agent } = {
+        headers: { Accept: 'application/rdap+json, application/json' },
+        redirect: 'manual',
+        signal: controller.signal,
+        dispatcher,
+      };
+      const response = await fetch(url.href, init);
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        if (redirects >= MAX_REDIRECTS) {
+          throw new RdapMalformedResponseError(
+            `Too many redirects from ${rdapServer}`,
+            rdapServer,
+          );
+        }
+        ({ url, addresses } = await validateProxyTarget(
+          new URL(location, url).href,
+        ));
+        continue;
+      }
+
+      const body = await readLimitedBody(response);
+      if (!response.ok) {
+        throw await toUpstreamError(
+          {
+            ok: response.ok,
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+            json: async () => JSON.parse(body),
+          },
+          rdapServer,
+        );
+      }
+
+      const contentType = response.headers.get('content-type') ?? '';
+      let data: unknown;
+      try {
+        data = JSON.parse(body);
+      } catch (e) {
+        data = undefined;
+      }
+      if (!/json/i.test(contentType) || typeof data !== 'object' || !data) {
+        throw new RdapMalformedResponseError(
+          `RDAP server ${rdapServer} did not return JSON`,
+          rdapServer,
+        );
+      }
+
+      return { body, contentType, url: url.href };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new RdapTimeoutError(
+          `RDAP server ${rdapServer} timed out after ${rdapTimeout}ms`,
+          rdapServer,
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      release();
+      dispatcher.destroy().catch(() => undefined);
+    }
+  }
+}
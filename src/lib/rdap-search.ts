@@ -0,0 +1,292 @@
+// RFC 9082 searches for domains, nameservers and entities, following the
+// RFC 8977 paging links
+import {
+  findRdapServerForTag,
+  NormalizedEntityData,
+  normalizeEntityResponse,
+  RdapEntityResponse,
+  validateEntityHandle,
+} from './entity-rdap';
+import { validateIP } from './ip-utils';
+import {
+  NormalizedNameserverData,
+  normalizeNameserverResponse,
+  RdapNameserverResponse,
+} from './nameserver-rdap';
+import {
+  findRdapServerUrl,
+  NormalizedRdapData,
+  normalizeRdapResponse,
+  RdapResponse,
+} from './rdap';
+import { fetchRdapUrl, queryRdap } from './rdap-client';
+import { RdapLink, RdapNotice } from './rdap-conformance';
+import { RdapNoServerError, RdapValidationError } from './rdap-errors';
+import { RdapTransport } from './rdap-transport';
+
+// Query parameters each search path accepts (RFC 9082 section 3.2)
+export const SEARCH_PARAMETERS = {
+  domains: ['name', 'nsLdhName', 'nsIp'],
+  nameservers: ['name', 'ip'],
+  entities: ['fn', 'handle'],
+} as const;
+
+export type RdapSearchType = keyof typeof SEARCH_PARAMETERS;
+
+export type RdapSearchParameter =
+  (typeof SEARCH_PARAMETERS)[RdapSearchType][number];
+
+// Member holding the results in a search response (RFC 9083 section 8)
+const RESULT_MEMBERS = {
+  domains: 'domainSearchResults',
+  nameservers: 'nameserverSearchResults',
+  entities: 'entitySearchResults',
+} as const;
+
+interface SearchResultTypes {
+  domains: NormalizedRdapData;
+  nameservers: NormalizedNameserverData;
+  entities: NormalizedEntityData;
+}
+
+interface RdapSearchResponse {
+  domainSearchResults?: RdapResponse[];
+  nameserverSearchResults?: RdapNameserverResponse[];
+  entitySearchResults?: RdapEntityResponse[];
+  paging_metadata?: {
+    totalCount?: number;
+    pageSize?: number;
+    pageNumber?: number;
+    links?: RdapLink[];
+  };
+  notices?: RdapNotice[];
+  links?: RdapLink[];
+}
+
+export interface RdapSearchOptions {
+  /** TLD whose registry is searched; defaults to the TLD of the name */
+  tld?: string;
+  /** Object tag (e.g. ARIN) whose server is searched */
+  tag?: string;
+  /** Stop once this many results are collected */
+  maxResults?: number;
+  /** Stop after following this many pages */
+  maxPages?: number;
+  /** Sends the HTTP requests; defaults to the global fetch */
+  transport?: RdapTransport;
+}
+
+export interface RdapSearchResult<T> {
+  type: RdapSearchType;
+  parameter: RdapSearchParameter;
+  pattern: string;
+  results: T[];
+  /** Number of matches the server reported, when it supports paging */
+  totalCount?: number;
+  pages: number;
+  truncated: boolean;
+  /** Truncation notices from the server, and ours when we stopped paging */
+  notices: RdapNotice[];
+  rdapServer: string;
+  rdapServerOverride: boolean;
+}
+
+const DEFAULT_MAX_RESULTS = 100;
+const DEFAULT_MAX_PAGES = 5;
+
+// Partial matches allow a single `*` (RFC 9082 section 4.1)
+const NAME_PATTERN = /^[a-z0-9*_-]+(\.[a-z0-9*_-]+)*\.?$/i;
+const HANDLE_PATTERN = /^[a-z0-9*._-]+$/i;
+
+/**
+ * Check a search pattern against the syntax of its parameter
+ */
+function validateSearchPattern(
+  parameter: RdapSearchParameter,
+  pattern: string,
+): void {
+  if (!pattern) {
+    throw new RdapValidationError(`Search parameter '${parameter}' is empty`);
+  }
+  if ((pattern.match(/\*/g) ?? []).length > 1) {
+    throw new RdapValidationError('Only one * wildcard is supported');
+  }
+
+  const valid =
+    parameter === 'ip' || parameter === 'nsIp'
+      ? validateIP(pattern).isValid
+      : parameter === 'fn'
+        ? pattern.length <= 255
+        : parameter === 'handle'
+          ? HANDLE_PATTERN.test(pattern)
+          : NAME_PATTERN.test(pattern);
+  if (!valid) {
+    throw new RdapValidationError(
+      `'${pattern}' is not a valid ${parameter} search pattern`,
+    );
+  }
+}
+
+/**
+ * Find the servers to search: those of the object tag or TLD when given,
+ * otherwise of the TLD in the name pattern
+ */
+async function findSearchServers(
+  parameter: RdapSearchParameter,
+  pattern: string,
+  { tld, tag, transport }: RdapSearchOptions,
+): Promise<{ urls: string[]; override: boolean }> {
+  if (tag) {
+    const urls = await findRdapServerForTag(tag.toUpperCase(), transport);
+    if (!urls) {
+      throw new RdapNoServerError(`No RDAP server found for object tag ${tag}`);
+    }
+    return { urls, override: false };
+  }
+
+  const searchTld =
+    tld ??
+    (parameter === 'name' || parameter === 'nsLdhName'
+      ? pattern.replace(/\.$/, '').split('.').pop()
+      : undefined);
+  if (!searchTld || searchTld.includes('*') || searchTld === pattern) {
+    throw new RdapValidationError(
+      'Pass a tld or tag to choose the RDAP server to search',
+    );
+  }
+
+  const serverMatch = await findRdapServerUrl(
+    searchTld.replace(/^\./, ''),
+    transport,
+  );
+  if (!serverMatch) {
+    throw new RdapNoServerError(
+      `No RDAP server found for the '.${searchTld}' TLD.`,
+    );
+  }
+  return serverMatch;
+}
+
+/**
+ * The next page of a search response, if it lives on the same server
+ */
+function findNextPage(
+  data: RdapSearchResponse,
+  rdapServer: string,
+): string | null {
+  const links = [...(data.paging_metadata?.links ?? []), ...(data.links ?? [])];
+  const next = links.find((link) => link.rel === 'next' && link.href);
+  if (!next?.href) return null;
+
+  try {
+    const url = new URL(next.href, rdapServer);
+    return url.origin === new URL(rdapServer).origin ? url.toString() : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Notices in which the server says it left out results
+ */
+const truncationNotices = (data: RdapSearchResponse): RdapNotice[] =>
+  (data.notices ?? []).filter((notice) =>
+    notice.type?.toLowerCase().startsWith('result set truncated'),
+  );
+
+/**
+ * Run an RFC 9082 search, follow its paging links and normalize the results
+ * with the same normalizers as the lookups
+ */
+export async function searchRdap<K extends RdapSearchType>(
+  type: K,
+  parameter: RdapSearchParameter,
+  pattern: string,
+  options: RdapSearchOptions = {},
+): Promise<RdapSearchResult<SearchResultTypes[K]>> {
+  const allowed: readonly string[] = SEARCH_PARAMETERS[type];
+  if (!allowed.includes(parameter)) {
+    throw new RdapValidationError(
+      `${type} searches support ${allowed.join(', ')}, not '${parameter}'`,
+    );
+  }
+  const trimmed = pattern.trim();
+  validateSearchPattern(parameter, trimmed);
+
+  const {
+    maxResults = DEFAULT_MAX_RESULTS,
+    maxPages = DEFAULT_MAX_PAGES,
+    transport,
+  } = options;
+  const serverMatch = await findSearchServers(parameter, trimmed, options);
+
+  const first = await queryRdap<RdapSearchResponse>(
+    serverMatch.urls,
+    `${type}?${parameter}=${encodeURIComponent(trimmed)}`,
+    { transport },
+  );
+  const { rdapServer } = first;
+
+  const raw: unknown[] = [];
+  const notices: RdapNotice[] = [];
+  let page = first.data;
+  let pages = 1;
+
+  for (;;) {
+    raw.push(...(page[RESULT_MEMBERS[type]] ?? []));
+    notices.push(...truncationNotices(page));
+
+    const next = findNextPage(page, rdapServer);
+    if (!next || raw.length >= maxResults || pages >= maxPages) {
+      if (next || raw.length > maxResults) {
+        notices.push({
+          title: 'Search results truncated',
+          type: 'result set truncated due to excessive load',
+          description: [
+            `Stopped after ${pages} page(s) and ${Math.min(
+              raw.length,
+              maxResults,
+            )} result(s).`,
+          ],
+        });
+      }
+      break;
+    }
+
+    page = (await fetchRdapUrl<RdapSearchResponse>(next, { transport })).data;
+    pages++;
+  }
+
+  const normalize = (item: unknown): SearchResultTypes[RdapSearchType] => {
+    if (type === 'domains') {
+      return normalizeRdapResponse(item as RdapResponse, rdapServer);
+    }
+    if (type === 'nameservers') {
+      return normalizeNameserverResponse(
+        item as RdapNameserverResponse,
+        rdapServer,
+      );
+    }
+    const entity = item as RdapEntityResponse;
+    const handle = entity.handle ?? '';
+    return normalizeEntityResponse(
+      entity,
+      handle,
+      options.tag?.toUpperCase() ?? validateEntityHandle(handle).tag ?? '',
+      rdapServer,
+    );
+  };
+
+  return {
+    type,
+    parameter,
+    pattern: trimmed,
+    results: raw.slice(0, maxResults).map(normalize) as SearchResultTypes[K][],
+    totalCount: first.data.paging_metadata?.totalCount,
+    pages,
+    truncated: notices.length > 0,
+    notices,
+    rdapServer,
+    rdapServerOverride: serverMatch.override,
+  };
+}
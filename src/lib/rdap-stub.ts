@@ -0,0 +1,93 @@
+// In-process stub RDAP server: a transport that answers from recorded
+// fixtures and trimmed bootstrap registries, for running lookups offline
+import { bootstrapFixtures, rdapFixtures } from '@/data/rdap-fixtures';
+
+import { BootstrapType, IANA_BOOTSTRAP_URLS } from './rdap-bootstrap';
+import { RdapTransport, RdapTransportResponse } from './rdap-transport';
+
+export interface RdapFixtureSet {
+  /** Base URL the responses are served under */
+  rdapServer: string;
+  /**
+   * Response bodies keyed by query path, e.g. `ip/192.0.2.1` or
+   * `domains?name=exam*.com`
+   */
+  responses: Record<string, unknown>;
+}
+
+export interface StubRdapServer {
+  transport: RdapTransport;
+  /** Every URL requested so far, in order */
+  requests: string[];
+}
+
+/**
+ * Build a JSON response the way an RDAP server sends it
+ */
+function stubResponse(status: number, body: unknown): RdapTransportResponse {
+  const headers: Record<string, string> = {
+    'content-type': 'application/rdap+json',
+  };
+
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: status === 200 ? 'OK' : 'Not Found',
+    headers: { get: (name) => headers[name.toLowerCase()] ?? null },
+    json: async () => JSON.parse(JSON.stringify(body)),
+  };
+}
+
+/**
+ * Strip the scheme so fixtures answer on both http and https base URLs
+ */
+const withoutScheme = (url: string) => url.replace(/^https?:\/\//i, '');
+
+/**
+ * Create a stub RDAP server. Unknown paths answer 404 with an RFC 9083
+ * error object; IANA bootstrap files are served from the bootstrap fixtures.
+ */
+export function createStubRdapServer(
+  fixtures: RdapFixtureSet[] = Object.values(rdapFixtures),
+): StubRdapServer {
+  const requests: string[] = [];
+
+  const bootstrapFiles = new Map<string, unknown>();
+  for (const [type, url] of Object.entries(IANA_BOOTSTRAP_URLS)) {
+    bootstrapFiles.set(url, bootstrapFixtures[type as BootstrapType]);
+  }
+
+  const transport: RdapTransport = async (url) => {
+    requests.push(url);
+
+    const bootstrapFile = bootstrapFiles.get(url);
+    if (bootstrapFile) return stubResponse(200, bootstrapFile);
+
+    const [target, query] = withoutScheme(url).split('?');
+    for (const { rdapServer, responses } of fixtures) {
+      const base = withoutScheme(rdapServer);
+      if (!target.toLowerCase().startsWith(base.toLowerCase())) continue;
+
+      // Searches are recorded with their query string; lookups without
+      const path = decodeURIComponent(target.slice(base.length));
+      const paths = query
+        ? [`${path}?${decodeURIComponent(query)}`, path]
+        : [path];
+      for (const candidatePath of paths) {
+        const key = Object.keys(responses).find(
+          (candidate) =>
+            candidate.toLowerCase() === candidatePath.toLowerCase(),
+        );
+        if (key) return stubResponse(200, responses[key]);
+      }
+    }
+
+    return stubResponse(404, {
+      errorCode: 404,
+      title: 'Not Found',
+      description: [`No fixture for ${url}`],
+    });
+  };
+
+  return { transport, requests };
+}
@@ -0,0 +1,27 @@
+// The HTTP layer under RDAP and bootstrap queries, replaceable for testing
+
+/**
+ * The parts of a fetch Response that RDAP queries read
+ */
+export interface RdapTransportResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: { get(name: string): string | null };
+  json(): Promise<unknown>;
+}
+
+export interface RdapTransportRequest {
+  headers: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export type RdapTransport = (
+  url: string,
+  init: RdapTransportRequest,
+) => Promise<RdapTransportResponse>;
+
+/**
+ * Default transport: the global fetch, resolved on every call
+ */
+export const fetchTransport: RdapTransport = (url, init) => fetch(url, init);
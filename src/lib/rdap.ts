@@ -1,4 +1,23 @@
 // src/lib/rdap.ts
+import { DomainQuery, parseDomainInput } from './domain-input';
+import { toUnicodeName } from './idn';
+import { coalesceLookup } from './inflight';
+import {
+  NormalizedNameserverData,
+  normalizeNameserverResponse,
+  RdapNameserverResponse,
+  validateNameserverHost,
+} from './nameserver-rdap';
+import { fetchBootstrapData, sortRdapUrls } from './rdap-bootstrap';
+import { fetchRdapUrl, queryRdap } from './rdap-client';
+import {
+  ConformanceReport,
+  RdapObject,
+  validateRdapResponse,
+} from './rdap-conformance';
+import { RdapNoServerError, RdapValidationError } from './rdap-errors';
+import { findDomainOverride, RdapServerMatch } from './rdap-overrides';
+import { RdapTransport } from './rdap-transport';
 
 export interface RdapEvent {
   eventAction: string;
@@ -10,17 +29,24 @@ export interface RdapEntity {
   vcardArray?: (string | (string | string | string | string)[])[];
 }
 
-export interface RdapNameserver {
-  ldhName?: string;
-}
-
 export interface RdapSecureDns {
   delegationSigned?: boolean;
 }
 
-export interface RdapResponse {
+/**
+ * IDN variants of a domain (RFC 9083 section 5.3)
+ */
+export interface RdapVariant {
+  relation?: string[];
+  idnTable?: string;
+  variantNames?: { ldhName?: string; unicodeName?: string }[];
+}
+
+export interface RdapResponse extends RdapObject {
   ldhName?: string;
-  nameservers?: RdapNameserver[];
+  unicodeName?: string;
+  variants?: RdapVariant[];
+  nameservers?: RdapNameserverResponse[];
   status?: string[];
   events?: RdapEvent[];
   entities?: RdapEntity[];
@@ -48,31 +74,35 @@ export interface NormalizedRdapData {
   nameservers: string[];
 }
 
-const IANA_RDAP_DNS_JSON_URL = 'https://data.iana.org/rdap/dns.json';
+/**
+ * Find the RDAP base URLs for a TLD, checking configured overrides before the
+ * shared IANA dns bootstrap cache
+ */
+export async function findRdapServerUrl(
+  tld: string,
+  transport?: RdapTransport,
+): Promise<RdapServerMatch | null> {
+  const normalizedTld = tld.toLowerCase();
 
-let rdapServersCache: [string[], string[]][] | null = null;
+  const override = findDomainOverride(normalizedTld);
+  if (override) return { urls: override, override: true };
 
-export async function fetchAndCacheServers() {
-  if (rdapServersCache) return;
-
-  const response = await fetch(IANA_RDAP_DNS_JSON_URL);
-  if (!response.ok)
-    throw new Error(`Failed to fetch IANA data: ${response.statusText}`);
-  const data = await response.json();
-  rdapServersCache = data.services;
-}
-
-export function findRdapServerUrl(tld: string): string | null {
-  if (!rdapServersCache)
-    throw new Error('RDAP server list has not been initialized.');
-  for (const [tlds, urls] of rdapServersCache) {
-    if (tlds.includes(tld)) return urls[0];
+  const bootstrapData = await fetchBootstrapData('dns', transport);
+  for (const [tlds, urls] of bootstrapData.services) {
+    if (tlds.includes(normalizedTld)) {
+      return { urls: sortRdapUrls(urls), override: false };
+    }
   }
   return null;
 }
 
 export interface NormalizedRdapData {
   domainName: string;
+  /** Lowercase A-label form the registry was queried with */
+  ldhName?: string;
+  /** U-label form, for internationalized domain names */
+  unicodeName?: string;
+  variants?: RdapVariant[];
   registrar: string;
   registrarUrl?: string;
   registrarAbuseEmail?: string;
@@ -84,6 +114,8 @@ export interface NormalizedRdapData {
   lastTransferred?: string;
   statuses: { label: string; url: string }[];
   nameservers: string[];
+  /** Nameserver objects with glue addresses, status and links when given */
+  nameserverDetails?: NormalizedNameserverData[];
   entities?: Array<{
     handle?: string;
     roles?: string[];
@@ -102,6 +134,148 @@ export interface NormalizedRdapData {
     type?: string;
   }>;
   rdapServer?: string;
+  rdapServerOverride?: boolean;
+  /** The registrable domain that was looked up, after normalizing the input */
+  query?: Omit<DomainQuery, 'tld'>;
+  registrarRdapServer?: string;
+  fieldSources?: Partial<Record<MergedField, RdapDataSource>>;
+  discrepancies?: RdapDiscrepancy[];
+  referralError?: string;
+  conformance?: ConformanceReport;
+}
+
+export type RdapDataSource = 'registry' | 'registrar';
+
+export interface RdapDiscrepancy {
+  field: MergedField;
+  registry: string;
+  registrar: string;
+}
+
+// Fields that can come from either the registry or the registrar response
+const MERGED_FIELDS = [
+  'registrar',
+  'registrarUrl',
+  'registrarAbuseEmail',
+  'registrarAbusePhone',
+  'dnssec',
+  'registeredOn',
+  'expiresOn',
+  'lastUpdated',
+  'lastTransferred',
+  'statuses',
+  'nameservers',
+  'nameserverDetails',
+  'entities',
+  'remarks',
+] as const;
+
+type MergedField = (typeof MERGED_FIELDS)[number];
+
+// Registrar data is preferred for contacts; the registry is authoritative
+// for everything else
+const REGISTRAR_PREFERRED: MergedField[] = [
+  'registrarUrl',
+  'registrarAbuseEmail',
+  'registrarAbusePhone',
+  'entities',
+  'remarks',
+];
+
+// Fields compared between both responses to flag disagreements
+const COMPARED_FIELDS: MergedField[] = [
+  'registrar',
+  'registeredOn',
+  'expiresOn',
+  'dnssec',
+  'nameservers',
+];
+
+/**
+ * Find the registrar's RDAP URL for a domain in a thin registry response
+ * (a `related` link to an RDAP domain object on another server)
+ */
+export function findRegistrarReferral(
+  data: RdapResponse,
+  rdapServerUrl: string,
+): string | null {
+  const registryHost = new URL(rdapServerUrl).hostname;
+
+  for (const link of data.links ?? []) {
+    if (link.rel !== 'related' || !link.href) continue;
+    if (link.type && !link.type.includes('rdap+json')) continue;
+
+    try {
+      const url = new URL(link.href);
+      if (url.hostname !== registryHost && /\/domain\//i.test(url.pathname)) {
+        return url.toString();
+      }
+    } catch (e) {
+      continue;
+    }
+  }
+  return null;
+}
+
+/**
+ * Merge registry and registrar data, recording where each field came from
+ * and where the two responses disagree
+ */
+export function mergeRegistrarData(
+  registry: NormalizedRdapData,
+  registrar: NormalizedRdapData,
+  registrarRdapServer: string,
+): NormalizedRdapData {
+  const isEmpty = (value: unknown) =>
+    value === undefined ||
+    value === 'N/A' ||
+    (Array.isArray(value) && value.length === 0);
+  const comparable = (value: unknown): string => {
+    if (Array.isArray(value)) {
+      return value
+        .map((v) => String(v).toLowerCase())
+        .sort()
+        .join(', ');
+    }
+    // Compare dates by day so second-level drift is not reported
+    const date = Date.parse(String(value));
+    return isNaN(date)
+      ? String(value)
+      : new Date(date).toISOString().slice(0, 10);
+  };
+
+  const merged: NormalizedRdapData = { ...registry, registrarRdapServer };
+  const fieldSources: Partial<Record<MergedField, RdapDataSource>> = {};
+  const discrepancies: RdapDiscrepancy[] = [];
+
+  for (const field of MERGED_FIELDS) {
+    const preferRegistrar = REGISTRAR_PREFERRED.includes(field);
+    const [first, second]: RdapDataSource[] = preferRegistrar
+      ? ['registrar', 'registry']
+      : ['registry', 'registrar'];
+    const values = { registry: registry[field], registrar: registrar[field] };
+    const source = isEmpty(values[first]) ? second : first;
+
+    if (!isEmpty(values[source])) {
+      Object.assign(merged, { [field]: values[source] });
+      fieldSources[field] = source;
+    }
+
+    if (
+      COMPARED_FIELDS.includes(field) &&
+      !isEmpty(values.registry) &&
+      !isEmpty(values.registrar) &&
+      comparable(values.registry) !== comparable(values.registrar)
+    ) {
+      discrepancies.push({
+        field,
+        registry: comparable(values.registry),
+        registrar: comparable(values.registrar),
+      });
+    }
+  }
+
+  return { ...merged, fieldSources, discrepancies };
 }
 
 export function normalizeRdapResponse(
@@ -200,11 +374,21 @@ export function normalizeRdapResponse(
 
   return {
     domainName: data.ldhName || 'N/A',
+    ldhName: data.ldhName?.toLowerCase(),
+    unicodeName:
+      data.unicodeName || (data.ldhName && toUnicodeName(data.ldhName)),
+    variants: data.variants,
     registrar: findRegistrar(),
     registrarUrl: registrarDetails.url,
     registrarAbuseEmail: registrarDetails.abuseEmail,
     registrarAbusePhone: registrarDetails.abusePhone,
-    dnssec: data.secureDNS?.delegationSigned ? 'Signed' : 'Unsigned',
+    // Without secureDNS the response says nothing about DNSSEC, which a
+    // merge with the registry answer must treat as missing, not unsigned
+    dnssec: !data.secureDNS
+      ? 'N/A'
+      : data.secureDNS.delegationSigned
+        ? 'Signed'
+        : 'Unsigned',
     registeredOn: findDate('registration'),
     expiresOn: findDate('expiration'),
     lastUpdated: findDate('last changed') || findDate('last update') || 'N/A',
@@ -216,9 +400,162 @@ export function normalizeRdapResponse(
       })) || [],
     nameservers:
       data.nameservers?.map((ns) => ns.ldhName || 'N/A').filter(Boolean) || [],
+    nameserverDetails:
+      data.nameservers?.map((ns) => normalizeNameserverResponse(ns)) || [],
     entities,
     remarks: data.remarks,
     links: data.links,
     rdapServer: rdapServerUrl,
   };
 }
+
+export interface DomainLookupOptions {
+  /** Follow the registry's referral to the registrar's RDAP server */
+  followReferral?: boolean;
+  /** Attach a conformance report for the registry's response */
+  conformance?: boolean;
+  /** Sends the HTTP requests; defaults to the global fetch */
+  transport?: RdapTransport;
+}
+
+/**
+ * Look up a domain at its registry, optionally following the referral to
+ * the registrar
+ */
+export async function lookupDomain(
+  domainName: string,
+  options: DomainLookupOptions = {},
+): Promise<NormalizedRdapData> {
+  // Reduce URLs, email addresses and subdomains to the registrable domain,
+  // in the A-labels registries expect
+  const query = parseDomainInput(domainName);
+
+  // Concurrent callers for the same domain share one upstream query
+  return coalesceLookup(
+    `domain:${query.domain}${options.followReferral ? '?follow' : ''}${
+      options.conformance ? '?conformance' : ''
+    }`,
+    () => fetchDomainLookup(query, options),
+  );
+}
+
+/**
+ * Query the registry (and registrar) for a domain and normalize the response
+ */
+async function fetchDomainLookup(
+  { tld, ...query }: DomainQuery,
+  {
+    followReferral = false,
+    conformance = false,
+    transport,
+  }: DomainLookupOptions,
+): Promise<NormalizedRdapData> {
+  // Find the RDAP servers for the TLD (bootstrap data is cached with a TTL)
+  const serverMatch = await findRdapServerUrl(tld, transport);
+  if (!serverMatch) {
+    throw new RdapNoServerError(`No RDAP server found for the '.${tld}' TLD.`);
+  }
+
+  // Query each RDAP server in order until one answers
+  const { data: rawData, rdapServer } = await queryRdap<RdapResponse>(
+    serverMatch.urls,
+    `domain/${query.domain}`,
+    { transport },
+  );
+
+  // Process the raw data into a clean, normalized format
+  const normalizedData = {
+    ...normalizeRdapResponse(rawData, rdapServer),
+    rdapServerOverride: serverMatch.override,
+    query,
+    conformance: conformance
+      ? validateRdapResponse(rawData, 'domain')
+      : undefined,
+  };
+
+  // Optionally follow the registry's referral to the registrar for thick data
+  const referralUrl = followReferral
+    ? findRegistrarReferral(rawData, rdapServer)
+    : null;
+  if (!referralUrl) return normalizedData;
+
+  try {
+    const registrarResult = await fetchRdapUrl<RdapResponse>(referralUrl, {
+      transport,
+    });
+    const registrarData = normalizeRdapResponse(
+      registrarResult.data,
+      registrarResult.rdapServer,
+    );
+    return mergeRegistrarData(
+      normalizedData,
+      registrarData,
+      registrarResult.rdapServer,
+    );
+  } catch (error) {
+    // The registry answer is still useful without the registrar's
+    return {
+      ...normalizedData,
+      referralError: error instanceof Error ? error.message : 'Referral failed',
+    };
+  }
+}
+
+export interface NameserverLookupOptions {
+  /** Attach a conformance report for the registry's response */
+  conformance?: boolean;
+  /** Sends the HTTP requests; defaults to the global fetch */
+  transport?: RdapTransport;
+}
+
+/**
+ * Look up a nameserver object at the registry of its TLD
+ */
+export async function lookupNameserver(
+  host: string,
+  options: NameserverLookupOptions = {},
+): Promise<NormalizedNameserverData> {
+  const validation = validateNameserverHost(host);
+  if (!validation.isValid || !validation.normalized || !validation.tld) {
+    throw new RdapValidationError(
+      validation.error || 'Invalid nameserver host name',
+    );
+  }
+
+  const normalizedHost = validation.normalized;
+  const tld = validation.tld;
+
+  // Concurrent callers for the same host share one upstream query
+  return coalesceLookup(
+    `nameserver:${normalizedHost}${options.conformance ? '?conformance' : ''}`,
+    () => fetchNameserverLookup(normalizedHost, tld, options),
+  );
+}
+
+/**
+ * Query the registry for a nameserver and normalize the response
+ */
+async function fetchNameserverLookup(
+  host: string,
+  tld: string,
+  { conformance = false, transport }: NameserverLookupOptions,
+): Promise<NormalizedNameserverData> {
+  const serverMatch = await findRdapServerUrl(tld, transport);
+  if (!serverMatch) {
+    throw new RdapNoServerError(`No RDAP server found for the '.${tld}' TLD.`);
+  }
+
+  const { data, rdapServer } = await queryRdap<RdapNameserverResponse>(
+    serverMatch.urls,
+    `nameserver/${host}`,
+    { transport },
+  );
+
+  return {
+    ...normalizeNameserverResponse(data, rdapServer),
+    rdapServerOverride: serverMatch.override,
+    conformance: conformance
+      ? validateRdapResponse(data, 'nameserver')
+      : undefined,
+  };
+}
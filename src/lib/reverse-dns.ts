@@ -0,0 +1,169 @@
+// Reverse DNS delegations (in-addr.arpa / ip6.arpa domain objects) for IP
+// addresses and prefixes
+import { Address6 } from 'ip-address';
+
+import { IPVersion } from './ip-utils';
+import { NormalizedNameserverData } from './nameserver-rdap';
+import {
+  findRdapServerUrl,
+  NormalizedRdapData,
+  normalizeRdapResponse,
+  RdapResponse,
+} from './rdap';
+import { queryRdap } from './rdap-client';
+import {
+  RdapNoServerError,
+  RdapNotFoundError,
+  RdapValidationError,
+} from './rdap-errors';
+import { RdapTransport } from './rdap-transport';
+
+export interface ReverseDnsData {
+  /** The delegated zone, e.g. `8.8.8.in-addr.arpa` */
+  zone: string;
+  nameservers: string[];
+  nameserverDetails: NormalizedNameserverData[];
+  dnssec: NormalizedRdapData['dnssec'];
+  entities: NonNullable<NormalizedRdapData['entities']>;
+  lastUpdated: string;
+  rdapServer: string;
+}
+
+export interface ReverseDnsOptions {
+  /** Length of the prefix to find the zone for; the whole address if unset */
+  prefixLength?: number;
+  /** Servers to ask when the dns bootstrap has no entry for the zone */
+  fallbackServers?: string[];
+  /** Sends the HTTP requests; defaults to the global fetch */
+  transport?: RdapTransport;
+}
+
+// Registries delegate reverse zones on octet (IPv4) or nibble (IPv6)
+// boundaries; most delegations are one of these sizes
+const IPV4_ZONE_LENGTHS = [24, 16, 8];
+const IPV6_ZONE_LENGTHS = [48, 32];
+
+/**
+ * Build the zones for the given prefix lengths from the address labels
+ * (octets or nibbles), skipping zones longer than the prefix allows. A prefix
+ * between label boundaries starts at the enclosing boundary (a /21 at its
+ * /16), since a longer zone would cover only part of it.
+ */
+function buildZones(
+  labels: string[],
+  bitsPerLabel: number,
+  zoneLengths: number[],
+  prefixLength: number,
+  suffix: string,
+): string[] {
+  const longest = Math.min(
+    zoneLengths[0],
+    Math.floor(prefixLength / bitsPerLabel) * bitsPerLabel,
+  );
+
+  return [longest, ...zoneLengths]
+    .filter(
+      (length, i, all) =>
+        length > 0 && length <= longest && all.indexOf(length) === i,
+    )
+    .map(
+      (length) =>
+        `${labels
+          .slice(0, length / bitsPerLabel)
+          .reverse()
+          .join('.')}.${suffix}`,
+    );
+}
+
+/**
+ * Reverse zones that may hold the delegation for an address or prefix,
+ * most specific first
+ */
+export function getReverseZones(
+  ip: string,
+  version: IPVersion,
+  prefixLength = version === 'IPv4' ? 32 : 128,
+): string[] {
+  if (version === 'IPv4') {
+    return buildZones(
+      ip.split('.'),
+      8,
+      IPV4_ZONE_LENGTHS,
+      prefixLength,
+      'in-addr.arpa',
+    );
+  }
+
+  const nibbles = new Address6(ip).canonicalForm().replace(/:/g, '').split('');
+  return buildZones(nibbles, 4, IPV6_ZONE_LENGTHS, prefixLength, 'ip6.arpa');
+}
+
+/**
+ * Find the servers for a reverse zone through its longest matching entry
+ * in the overrides or the dns bootstrap (e.g. `in-addr.arpa` or `arpa`)
+ */
+async function findReverseZoneServers(
+  zone: string,
+  transport?: RdapTransport,
+): Promise<string[] | null> {
+  const labels = zone.split('.');
+  for (let i = 0; i < labels.length; i++) {
+    const match = await findRdapServerUrl(labels.slice(i).join('.'), transport);
+    if (match) return match.urls;
+  }
+  return null;
+}
+
+/**
+ * Look up the reverse DNS delegation covering an address or prefix, trying
+ * the most specific zone first
+ */
+export async function lookupReverseDns(
+  ip: string,
+  version: IPVersion,
+  { prefixLength, fallbackServers = [], transport }: ReverseDnsOptions = {},
+): Promise<ReverseDnsData> {
+  const zones = getReverseZones(ip, version, prefixLength);
+  if (zones.length === 0) {
+    throw new RdapValidationError(
+      `A /${prefixLength} prefix is too short for a reverse DNS zone`,
+    );
+  }
+
+  let lastError: unknown = new RdapNoServerError(
+    `No RDAP server found for the reverse zone of ${ip}`,
+  );
+
+  for (const zone of zones) {
+    // The RIRs serve their own reverse zones, so the server that answered
+    // for the address is the fallback
+    const servers =
+      (await findReverseZoneServers(zone, transport)) ?? fallbackServers;
+    if (servers.length === 0) continue;
+
+    try {
+      const { data, rdapServer } = await queryRdap<RdapResponse>(
+        servers,
+        `domain/${zone}`,
+        { transport },
+      );
+      const normalized = normalizeRdapResponse(data, rdapServer);
+
+      return {
+        zone: data.ldhName?.toLowerCase() || zone,
+        nameservers: normalized.nameservers,
+        nameserverDetails: normalized.nameserverDetails ?? [],
+        dnssec: normalized.dnssec,
+        entities: normalized.entities ?? [],
+        lastUpdated: normalized.lastUpdated,
+        rdapServer,
+      };
+    } catch (error) {
+      // Not delegated at this size; try the enclosing zone
+      if (!(error instanceof RdapNotFoundError)) throw error;
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}